@@ -308,7 +308,7 @@ async function testStructuredOutput() {
 }
 
 /**
- * 8. Deep Research Agent (Async/Manual Polling)
+ * 8. Deep Research Agent (Async/Polling)
  * This test is defined but NOT run by default as requested.
  */
 // eslint-disable-next-line @typescript-eslint/no-unused-vars
@@ -330,36 +330,22 @@ async function testDeepResearchAgent() {
   // 2. Polling for results
   console.log('2. Polling for results...');
 
-  await new Promise<void>((resolve, reject) => {
-    const pollInterval = setInterval(async () => {
-      try {
-        // Fetch the current state of the interaction
-        // Note: getInteraction returns a BaseMessage. Status is in metadata.
-        const message = await agent.getInteraction(interactionId);
-        // @ts-ignore
-        const status = message.response_metadata.finish_reason as string;
-
-        console.log(`   Current Status: ${status}`);
-
-        // Check for completion states
-        // Status values are typically: 'IN_PROGRESS', 'COMPLETED', 'FAILED', 'CANCELLED'
-        if (status === 'COMPLETED' || status === 'completed') {
-          clearInterval(pollInterval);
-          console.log('\n--- Final Report ---');
-          console.log(message.content);
-          resolve();
-        } else if (['FAILED', 'failed', 'CANCELLED', 'cancelled'].includes(status)) {
-          clearInterval(pollInterval);
-          console.error(`   Job failed: ${status}`);
-          resolve();
-        }
-      } catch (error) {
-        console.error('   Polling error:', error);
-        clearInterval(pollInterval);
-        reject(error);
-      }
-    }, 5000); // Check every 5 seconds
+  const message = await agent.waitForInteraction(interactionId, {
+    pollInterval: 5000, // Check every 5 seconds
+    backoff: 1.5,
+    maxPollInterval: 30000,
+    onProgress: ({ status, attempt }) => {
+      console.log(`   Current Status (poll #${attempt}): ${status}`);
+    },
   });
+
+  const status = message.response_metadata['finish_reason'] as string;
+  if (status === 'completed') {
+    console.log('\n--- Final Report ---');
+    console.log(message.content);
+  } else {
+    console.error(`   Job ended with status: ${status}`);
+  }
 }
 
 /**
@@ -0,0 +1,54 @@
+import { BaseCallbackHandler } from '@langchain/core/callbacks/base';
+import { type ChatGeneration, type LLMResult } from '@langchain/core/outputs';
+
+import { type CostEstimate, type CostSummary } from './types.js';
+
+/**
+ * Accumulates the estimated cost of every ChatGoogleGenAI call made during a run, keyed by model or agent.
+ * Pass it in `callbacks` when invoking a model, chain or agent, then read `costs` or `totalCost`.
+ * Calls to models without known prices are not counted.
+ */
+export class CostTrackingCallbackHandler extends BaseCallbackHandler {
+  name = 'CostTrackingCallbackHandler';
+
+  /**
+   * Accumulated cost per model or agent.
+   */
+  costs: Record<string, CostSummary> = {};
+
+  constructor() {
+    super();
+    // Totals are complete as soon as the run returns
+    this.awaitHandlers = true;
+  }
+
+  /**
+   * Accumulated cost of all models and agents, in USD.
+   */
+  get totalCost(): number {
+    return Object.values(this.costs).reduce((total, summary) => total + summary.total, 0);
+  }
+
+  override handleLLMEnd(output: LLMResult): void {
+    for (const generation of output.generations.flat()) {
+      const responseMetadata = (generation as ChatGeneration).message?.response_metadata as Record<string, unknown>;
+      const cost = responseMetadata?.['cost'] as CostEstimate | undefined;
+      if (!cost) {
+        continue;
+      }
+
+      const summary = (this.costs[cost.model] ??= { calls: 0, input: 0, output: 0, total: 0 });
+      summary.calls += 1;
+      summary.input += cost.input;
+      summary.output += cost.output;
+      summary.total += cost.total;
+    }
+  }
+
+  /**
+   * Clears the accumulated costs, e.g. between sessions.
+   */
+  reset(): void {
+    this.costs = {};
+  }
+}
@@ -0,0 +1,260 @@
+import { createHash } from 'node:crypto';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+
+import { GenerateContentResponse, type GenerateContentParameters, type Interactions } from '@google/genai';
+
+import { type GoogleGenAIClient } from './types.js';
+
+/**
+ * 'record' forwards requests to the wrapped client and saves every request/response pair.
+ * 'replay' serves saved pairs without touching the network.
+ */
+export type CassetteMode = 'record' | 'replay';
+
+/**
+ * Options for CassetteGoogleGenAIClient.
+ */
+export interface CassetteGoogleGenAIClientFields {
+  /**
+   * Whether to record new cassettes or replay existing ones.
+   */
+  mode: CassetteMode;
+
+  /**
+   * Directory holding the cassette files, one JSON file per request.
+   */
+  cassetteDir: string;
+
+  /**
+   * The client requests are forwarded to. Required in record mode.
+   */
+  client?: GoogleGenAIClient;
+}
+
+/**
+ * The content of a single cassette file.
+ */
+export interface CassetteEntry {
+  method: string;
+  request: unknown;
+  /**
+   * The response of a non-streaming call.
+   */
+  response?: unknown;
+  /**
+   * The chunks or events of a streaming call, in order.
+   */
+  stream?: unknown[];
+}
+
+/**
+ * Record/replay wrapper around the Google GenAI client.
+ * Requests are keyed by a hash of the method and the normalized request, so a replayed
+ * conversation must send exactly the same payloads as the recorded one.
+ * Streams are saved once they have been fully consumed.
+ */
+export class CassetteGoogleGenAIClient implements GoogleGenAIClient {
+  mode: CassetteMode;
+
+  cassetteDir: string;
+
+  private client?: GoogleGenAIClient;
+
+  readonly models: GoogleGenAIClient['models'] = {
+    generateContent: async (params: GenerateContentParameters) => {
+      const response = await this.call('models.generateContent', params, () =>
+        this.requiredClient.models.generateContent(params),
+      );
+      return toGenerateContentResponse(response);
+    },
+    generateContentStream: async (params: GenerateContentParameters) => {
+      const stream = await this.callStream('models.generateContentStream', params, () =>
+        this.requiredClient.models.generateContentStream(params),
+      );
+      return (async function* () {
+        for await (const chunk of stream) {
+          yield toGenerateContentResponse(chunk);
+        }
+      })();
+    },
+  };
+
+  readonly interactions: GoogleGenAIClient['interactions'] = {
+    create: async (params, options) => {
+      if (params.stream) {
+        return this.callStream('interactions.create', params, async () => {
+          const stream = await this.requiredClient.interactions.create(params, options);
+          return stream as AsyncIterable<Interactions.InteractionSSEEvent>;
+        }) as Promise<AsyncIterable<Interactions.InteractionSSEEvent>>;
+      }
+      return this.call('interactions.create', params, () =>
+        this.requiredClient.interactions.create(params, options),
+      ) as Promise<Interactions.Interaction>;
+    },
+    get: async (id, params, options) => {
+      const request = { id, ...params };
+      if (params?.stream) {
+        return this.callStream('interactions.get', request, async () => {
+          const stream = await this.requiredClient.interactions.get(id, params, options);
+          return stream as AsyncIterable<Interactions.InteractionSSEEvent>;
+        }) as Promise<AsyncIterable<Interactions.InteractionSSEEvent>>;
+      }
+      return this.call('interactions.get', request, () =>
+        this.requiredClient.interactions.get(id, params, options),
+      ) as Promise<Interactions.Interaction>;
+    },
+    cancel: async (id, params, options) => {
+      return this.call('interactions.cancel', { id, ...params }, () =>
+        this.requiredClient.interactions.cancel(id, params, options),
+      ) as Promise<Interactions.Interaction>;
+    },
+    delete: async (id, params, options) => {
+      return this.call('interactions.delete', { id, ...params }, () =>
+        this.requiredClient.interactions.delete(id, params, options),
+      );
+    },
+  };
+
+  /**
+   * File uploads are forwarded to the wrapped client without being recorded.
+   */
+  readonly files?: GoogleGenAIClient['files'];
+
+  /**
+   * Cache management is forwarded to the wrapped client as well.
+   */
+  readonly caches?: GoogleGenAIClient['caches'];
+
+  constructor(fields: CassetteGoogleGenAIClientFields) {
+    if (fields.mode === 'record' && !fields.client) {
+      throw new Error('A "client" must be provided to record cassettes.');
+    }
+
+    this.mode = fields.mode;
+    this.cassetteDir = fields.cassetteDir;
+    this.client = fields.client;
+    this.files = fields.client?.files;
+    this.caches = fields.client?.caches;
+  }
+
+  private get requiredClient(): GoogleGenAIClient {
+    if (!this.client) {
+      throw new Error('This operation requires a client to be specified.');
+    }
+    return this.client;
+  }
+
+  /**
+   * Records or replays a non-streaming call.
+   */
+  private async call<T>(method: string, request: unknown, send: () => Promise<T>): Promise<T> {
+    if (this.mode === 'replay') {
+      const entry = await this.readEntry(method, request);
+      return entry.response as T;
+    }
+
+    const response = await send();
+    await this.writeEntry({ method, request, response: stripHttpResponse(response) });
+    return response;
+  }
+
+  /**
+   * Records or replays a streaming call. Recorded items are saved once the stream completes.
+   */
+  private async callStream<T>(
+    method: string,
+    request: unknown,
+    send: () => Promise<AsyncIterable<T>>,
+  ): Promise<AsyncIterable<T>> {
+    if (this.mode === 'replay') {
+      const entry = await this.readEntry(method, request);
+      return (async function* () {
+        yield* (entry.stream ?? []) as T[];
+      })();
+    }
+
+    const stream = await send();
+    const writeEntry = (entry: CassetteEntry) => this.writeEntry(entry);
+    return (async function* () {
+      const items: unknown[] = [];
+      for await (const item of stream) {
+        items.push(stripHttpResponse(item));
+        yield item;
+      }
+      await writeEntry({ method, request, stream: items });
+    })();
+  }
+
+  private async readEntry(method: string, request: unknown): Promise<CassetteEntry> {
+    const path = this.cassettePath(method, request);
+    let raw: string;
+    try {
+      raw = await readFile(path, 'utf8');
+    } catch {
+      throw new Error(`No cassette recorded for ${method} (expected ${path}).`);
+    }
+    return JSON.parse(raw) as CassetteEntry;
+  }
+
+  private async writeEntry(entry: CassetteEntry): Promise<void> {
+    await mkdir(this.cassetteDir, { recursive: true });
+    const normalized = { ...entry, request: normalizeRequest(entry.request) };
+    await writeFile(this.cassettePath(entry.method, entry.request), JSON.stringify(normalized, null, 2) + '\n');
+  }
+
+  private cassettePath(method: string, request: unknown): string {
+    return join(this.cassetteDir, `${method}-${hashRequest(method, request)}.json`);
+  }
+}
+
+/**
+ * Normalizes a request so that equivalent payloads hash identically:
+ * object keys are sorted and undefined values are dropped.
+ */
+export function normalizeRequest(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(normalizeRequest);
+  }
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    return Object.fromEntries(
+      Object.keys(record)
+        .filter(key => record[key] !== undefined)
+        .sort()
+        .map(key => [key, normalizeRequest(record[key])]),
+    );
+  }
+  return value;
+}
+
+/**
+ * Computes the cassette key for a request.
+ */
+export function hashRequest(method: string, request: unknown): string {
+  return createHash('sha256')
+    .update(JSON.stringify({ method, request: normalizeRequest(request) }))
+    .digest('hex')
+    .slice(0, 16);
+}
+
+/**
+ * Drops the raw HTTP response (headers etc.) the SDK attaches, which should not be stored.
+ */
+function stripHttpResponse(value: unknown): unknown {
+  if (value && typeof value === 'object' && 'sdkHttpResponse' in value) {
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { sdkHttpResponse, ...rest } = value as Record<string, unknown>;
+    return rest;
+  }
+  return value;
+}
+
+/**
+ * Rebuilds an SDK response instance so helper getters such as `text` keep working after replay.
+ */
+function toGenerateContentResponse(response: unknown): GenerateContentResponse {
+  return response instanceof GenerateContentResponse
+    ? response
+    : Object.assign(new GenerateContentResponse(), response);
+}
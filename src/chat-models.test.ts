@@ -0,0 +1,222 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { AIMessage, type AIMessageChunk, type BaseMessage, HumanMessage, ToolMessage } from '@langchain/core/messages';
+import { concat } from '@langchain/core/utils/stream';
+
+import { ChatGoogleGenAI } from './chat-models.js';
+import { FakeGoogleGenAIClient } from './fake-client.js';
+
+describe('ChatGoogleGenAI', () => {
+  describe('background interactions', () => {
+    it('cancels the run server-side when aborted while it is being created', async () => {
+      const client = new FakeGoogleGenAIClient({
+        interactions: [{ id: 'interaction-1', status: 'in_progress', outputs: [] } as never],
+      });
+      const controller = new AbortController();
+
+      // Like the SDK, reject as soon as the signal aborts if one was passed to create
+      const create = client.interactions.create;
+      client.interactions.create = async (params, requestOptions) => {
+        controller.abort();
+        requestOptions?.signal?.throwIfAborted();
+        return create(params, requestOptions);
+      };
+
+      const model = new ChatGoogleGenAI({ agent: 'deep-research-pro-preview-12-2025', background: true, client });
+
+      await assert.rejects(model.invoke('Research this', { signal: controller.signal }), { name: 'AbortError' });
+      assert.deepEqual(
+        client.calls.filter(call => call.method === 'interactions.cancel'),
+        [{ method: 'interactions.cancel', params: { id: 'interaction-1' } }],
+      );
+    });
+
+    it('cancels a streamed run server-side when aborted while it is being created', async () => {
+      const client = new FakeGoogleGenAIClient({
+        interactionStreams: [
+          [
+            { event_type: 'interaction.start', interaction: { id: 'interaction-1', status: 'in_progress' } },
+            { event_type: 'content.delta', index: 0, delta: { type: 'text', text: 'Researching' } },
+          ] as never,
+        ],
+      });
+      const controller = new AbortController();
+
+      const create = client.interactions.create;
+      client.interactions.create = async (params, requestOptions) => {
+        controller.abort();
+        requestOptions?.signal?.throwIfAborted();
+        return create(params, requestOptions);
+      };
+
+      const model = new ChatGoogleGenAI({ agent: 'deep-research-pro-preview-12-2025', background: true, client });
+
+      await assert.rejects(async () => {
+        for await (const chunk of await model.stream('Research this', { signal: controller.signal })) {
+          assert.fail(`Unexpected chunk after abort: ${chunk.text}`);
+        }
+      }, { name: 'AbortError' });
+      assert.deepEqual(
+        client.calls.filter(call => call.method === 'interactions.cancel'),
+        [{ method: 'interactions.cancel', params: { id: 'interaction-1' } }],
+      );
+    });
+  });
+
+  describe('context management', () => {
+    // A single exchange of 21 messages, about 1300 tokens
+    function makeToolLoop(): BaseMessage[] {
+      const messages: BaseMessage[] = [new HumanMessage('Compare the weather in ten cities.')];
+      for (let i = 0; i < 10; i++) {
+        const id = `call-${i}`;
+        messages.push(
+          new AIMessage({ content: '', tool_calls: [{ id, name: 'get_weather', args: { city: `City ${i}` } }] }),
+          new ToolMessage({ tool_call_id: id, name: 'get_weather', content: 'Sunny and mild. '.repeat(30) }),
+        );
+      }
+      return messages;
+    }
+
+    it('drops earlier steps of a single long exchange, keeping the task and the latest step', async () => {
+      const messages = makeToolLoop();
+      const client = new FakeGoogleGenAIClient({
+        responses: [{ candidates: [{ content: { role: 'model', parts: [{ text: 'Done.' }] } }] }],
+      });
+      const model = new ChatGoogleGenAI({
+        model: 'gemini-2.5-flash',
+        client,
+        contextManagement: { maxInputTokens: 200 },
+      });
+
+      assert.ok((await model.countMessagesTokens(messages, { offline: true })) > 1000);
+      await model.invoke(messages);
+
+      const { contents } = client.calls[0].params as { contents: Array<{ role: string; parts: object[] }> };
+      assert.deepEqual(
+        contents.map(content => content.parts.map(part => Object.keys(part)[0])),
+        [['text'], ['functionCall'], ['functionResponse']],
+      );
+      assert.deepEqual(contents[1].parts[0], {
+        functionCall: { id: 'call-9', name: 'get_weather', args: { city: 'City 9' } },
+      });
+    });
+
+    it('keeps every step of the current turn for Gemini 3 models and fails if they do not fit', async () => {
+      const client = new FakeGoogleGenAIClient();
+      const model = new ChatGoogleGenAI({
+        model: 'gemini-3-pro-preview',
+        client,
+        contextManagement: { maxInputTokens: 200 },
+      });
+
+      await assert.rejects(model.invoke(makeToolLoop()), /"maxInputTokens"/);
+      assert.deepEqual(client.calls, []);
+    });
+
+    it('fails when the messages that are always kept exceed the budget', async () => {
+      const client = new FakeGoogleGenAIClient();
+      const model = new ChatGoogleGenAI({
+        model: 'gemini-2.5-flash',
+        client,
+        contextManagement: { maxInputTokens: 200 },
+      });
+
+      await assert.rejects(model.invoke('Summarize this. '.repeat(100)), /"maxInputTokens"/);
+      assert.deepEqual(client.calls, []);
+    });
+  });
+
+  describe('streaming', () => {
+    it('reports usage so that the concatenated chunks add up to the final counts', async () => {
+      // Like the API, every chunk carries the usage of the whole response so far
+      const usageChunk = (text: string, candidatesTokenCount: number) => ({
+        candidates: [{ content: { role: 'model', parts: [{ text }] } }],
+        usageMetadata: {
+          promptTokenCount: 10,
+          cachedContentTokenCount: 4,
+          candidatesTokenCount,
+          thoughtsTokenCount: 5,
+          totalTokenCount: 15 + candidatesTokenCount,
+        },
+      });
+      const client = new FakeGoogleGenAIClient({
+        streams: [[usageChunk('The ', 2), usageChunk('answer ', 7), usageChunk('is 42.', 12)]],
+      });
+      const model = new ChatGoogleGenAI({ model: 'gemini-2.5-flash', client });
+
+      let message: AIMessageChunk | undefined;
+      for await (const chunk of await model.stream('What is the answer?')) {
+        message = message ? concat(message, chunk) : chunk;
+      }
+
+      assert.equal(message?.text, 'The answer is 42.');
+      assert.deepEqual(message?.usage_metadata, {
+        input_tokens: 10,
+        output_tokens: 17,
+        total_tokens: 27,
+        input_token_details: { cache_read: 4 },
+        output_token_details: { reasoning: 5 },
+      });
+    });
+
+    it('resumes an interrupted Interactions stream after the last event it received', async () => {
+      const delta = (eventId: string, text: string) => ({
+        event_type: 'content.delta',
+        event_id: eventId,
+        index: 0,
+        delta: { type: 'text', text },
+      });
+      const client = new FakeGoogleGenAIClient({
+        interactionStreams: [
+          [
+            { event_type: 'interaction.start', event_id: 'e1', interaction: { id: 'interaction-1' } },
+            delta('e2', 'The '),
+            delta('e3', 'answer '),
+            new Error('Connection reset'),
+          ],
+          // The resumed stream replays the last event before continuing
+          [delta('e3', 'answer '), delta('e4', 'is 42.')],
+        ] as never,
+      });
+      const model = new ChatGoogleGenAI({ model: 'gemini-2.5-flash', useExperimentalInteractionsApi: true, client });
+
+      let text = '';
+      for await (const chunk of await model.stream('What is the answer?')) {
+        text += chunk.text;
+      }
+
+      assert.equal(text, 'The answer is 42.');
+      assert.deepEqual(
+        client.calls.filter(call => call.method === 'interactions.get'),
+        [{ method: 'interactions.get', params: { id: 'interaction-1', stream: true, last_event_id: 'e3' } }],
+      );
+    });
+
+    it('stops resuming an Interactions stream after maxStreamRetries attempts', async () => {
+      const client = new FakeGoogleGenAIClient({
+        interactionStreams: [
+          [
+            { event_type: 'interaction.start', event_id: 'e1', interaction: { id: 'interaction-1' } },
+            new Error('Connection reset'),
+          ],
+          [new Error('Connection reset again')],
+          [new Error('Unexpected extra attempt')],
+        ] as never,
+      });
+      const model = new ChatGoogleGenAI({
+        model: 'gemini-2.5-flash',
+        useExperimentalInteractionsApi: true,
+        maxStreamRetries: 1,
+        client,
+      });
+
+      await assert.rejects(async () => {
+        for await (const chunk of await model.stream('What is the answer?')) {
+          void chunk;
+        }
+      }, /Connection reset again/);
+      assert.equal(client.calls.filter(call => call.method === 'interactions.get').length, 1);
+    });
+  });
+});
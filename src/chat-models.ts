@@ -1,12 +1,18 @@
 import {
-  FunctionCallingConfigMode,
+  ApiError,
+  type CachedContent,
+  type FunctionCallingConfigMode,
   type FunctionDeclaration,
   type GenerateContentConfig,
   GoogleGenAI,
   type GoogleGenAIOptions,
+  type GroundingMetadata,
+  type ImageConfig,
   type Interactions,
+  type Modality,
   type SafetySetting,
   type Schema,
+  type SpeechConfig,
   type ThinkingConfig,
   type Tool,
   type ToolConfig,
@@ -14,26 +20,71 @@ import {
 import { CallbackManagerForLLMRun } from '@langchain/core/callbacks/manager';
 import { type BaseLanguageModelInput, type StructuredOutputMethodOptions } from '@langchain/core/language_models/base';
 import { BaseChatModel, BindToolsInput, LangSmithParams } from '@langchain/core/language_models/chat_models';
-import { AIMessageChunk, type BaseMessage } from '@langchain/core/messages';
-import { JsonOutputParser } from '@langchain/core/output_parsers';
+import {
+  type AIMessage,
+  AIMessageChunk,
+  type BaseMessage,
+  HumanMessage,
+  type MessageContent,
+  type UsageMetadata,
+} from '@langchain/core/messages';
+import { JsonOutputKeyToolsParser } from '@langchain/core/output_parsers/openai_tools';
 import { ChatGenerationChunk, type ChatResult } from '@langchain/core/outputs';
-import { Runnable, RunnableSequence } from '@langchain/core/runnables';
+import { Runnable, RunnablePassthrough, RunnableSequence } from '@langchain/core/runnables';
 import { isStructuredTool } from '@langchain/core/tools';
 import { getEnvironmentVariable } from '@langchain/core/utils/env';
 import { toJsonSchema } from '@langchain/core/utils/json_schema';
 import { type InteropZodType, isInteropZodSchema } from '@langchain/core/utils/types';
 
-import { ChatGoogleGenAICallOptions, ChatGoogleGenAIInput } from './types.js';
+import { estimateCost, GEMINI_PRICING } from './pricing.js';
+import { getModelProfile } from './profiles.js';
+import {
+  type CachedContentExpiration,
+  type CachedContentOptions,
+  ChatGoogleGenAICallOptions,
+  ChatGoogleGenAIInput,
+  type CostEstimate,
+  type CountTokensOptions,
+  type GeminiModelProfile,
+  type GoogleGenAIClient,
+  type ModelPricing,
+  WaitForInteractionOptions,
+} from './types.js';
+import { sleep } from './utils/async-utils.js';
+import { ContextManager } from './utils/context-management.js';
+import { FileUploader } from './utils/file-uploads.js';
 import {
   convertInteractionToChatGeneration,
   convertMessagesToGoogleInteractionPayload,
+  getInteractionIdFromEvent,
+  InteractionStreamCitations,
+  isTerminalInteractionStatus,
   makeMessageChunkFromGoogleInteractionEvent,
 } from './utils/interaction-utils.js';
+import { type MediaParsingOptions } from './utils/media-blocks.js';
 import { convertMessagesToGooglePayload } from './utils/message-inputs.js';
 import {
   convertGoogleResponseToChatGeneration,
   convertGoogleStreamChunkToLangChainChunk,
+  makeStreamCitationsChunk,
 } from './utils/message-outputs.js';
+import { StructuredJsonOutputParser } from './utils/output-parsers.js';
+import { validateCallAgainstProfile } from './utils/profile-validation.js';
+import {
+  convertJsonSchemaToGoogleSchema,
+  type JsonSchema,
+  stripJsonSchemaMetadata,
+  supportsJsonSchema,
+} from './utils/schema-utils.js';
+import { estimateTokenCount } from './utils/token-counting.js';
+import {
+  convertGoogleToolToInteractionTools,
+  convertInteractionToolToGoogleTool,
+  isGoogleTool,
+  isInteractionTool,
+  normalizeToolChoice,
+} from './utils/tool-utils.js';
+import { subtractUsageMetadata } from './utils/usage-metadata.js';
 
 /**
  * Google Gemini Chat Model integration.
@@ -69,6 +120,14 @@ export class ChatGoogleGenAI extends BaseChatModel<ChatGoogleGenAICallOptions> {
 
   thinkingConfig?: ThinkingConfig;
 
+  responseModalities?: Modality[];
+
+  imageConfig?: ImageConfig;
+
+  speechConfig?: SpeechConfig;
+
+  sniffMimeTypes = false;
+
   streamUsage = true;
 
   streaming = false;
@@ -81,6 +140,10 @@ export class ChatGoogleGenAI extends BaseChatModel<ChatGoogleGenAICallOptions> {
 
   store?: boolean;
 
+  maxStreamRetries = 3;
+
+  pricing: Record<string, ModelPricing>;
+
   get requiredAgent(): string {
     if (!this.agent) {
       throw new Error('This operation requires an agent to be specified.');
@@ -88,6 +151,21 @@ export class ChatGoogleGenAI extends BaseChatModel<ChatGoogleGenAICallOptions> {
     return this.agent;
   }
 
+  /**
+   * Capabilities and limits of the model, from the built-in profiles and the `profile` field.
+   * Empty for agents and unknown models.
+   */
+  override get profile(): GeminiModelProfile {
+    return { ...(this.model ? getModelProfile(this.model) : undefined), ...this.customProfile };
+  }
+
+  /**
+   * Whether `profile` describes the model, from a built-in profile or the `profile` field.
+   */
+  private get hasKnownProfile(): boolean {
+    return !!this.customProfile || (!!this.model && !!getModelProfile(this.model));
+  }
+
   get requiredModel(): string {
     if (!this.model) {
       throw new Error('This operation requires a model to be specified.');
@@ -95,7 +173,25 @@ export class ChatGoogleGenAI extends BaseChatModel<ChatGoogleGenAICallOptions> {
     return this.model;
   }
 
-  private client: GoogleGenAI;
+  private get requiredCaches(): NonNullable<GoogleGenAIClient['caches']> {
+    if (!this.client.caches) {
+      throw new Error('Context caching requires a client that supports the Caches API.');
+    }
+    return this.client.caches;
+  }
+
+  private client: GoogleGenAIClient;
+
+  private fileUploader?: FileUploader;
+
+  private contextManager?: ContextManager;
+
+  private customProfile?: GeminiModelProfile;
+
+  /**
+   * Warnings already logged by this instance, so that repeated calls do not flood the console.
+   */
+  private loggedWarnings = new Set<string>();
 
   constructor(fields?: ChatGoogleGenAIInput) {
     super(fields ?? {});
@@ -129,7 +225,7 @@ export class ChatGoogleGenAI extends BaseChatModel<ChatGoogleGenAICallOptions> {
 
     this.apiKey = fields?.apiKey ?? getEnvironmentVariable('GOOGLE_API_KEY');
 
-    if (!this.apiKey) {
+    if (!this.apiKey && !fields?.client) {
       throw new Error(
         'Google API key not found. Please set the GOOGLE_API_KEY environment variable or pass it to the constructor.',
       );
@@ -151,10 +247,45 @@ export class ChatGoogleGenAI extends BaseChatModel<ChatGoogleGenAICallOptions> {
     this.stop = fields?.stop;
     this.safetySettings = fields?.safetySettings;
     this.thinkingConfig = fields?.thinkingConfig;
+    this.responseModalities = fields?.responseModalities;
+    this.imageConfig = fields?.imageConfig;
+    this.speechConfig = fields?.speechConfig;
+    this.sniffMimeTypes = fields?.sniffMimeTypes ?? this.sniffMimeTypes;
     this.streaming = fields?.streaming ?? this.streaming;
     this.streamUsage = fields?.streamUsage ?? this.streamUsage;
+    this.maxStreamRetries = fields?.maxStreamRetries ?? this.maxStreamRetries;
+    this.pricing = { ...GEMINI_PRICING, ...fields?.pricing };
+    this.customProfile = fields?.profile;
+
+    this.client = fields?.client ?? new GoogleGenAI(this.clientOptions);
 
-    this.client = new GoogleGenAI(this.clientOptions);
+    if (fields?.autoUploadFiles) {
+      this.fileUploader = new FileUploader(
+        this.client,
+        fields.autoUploadFiles === true ? {} : fields.autoUploadFiles,
+        this.sniffMimeTypes,
+      );
+    }
+
+    if (fields?.contextManagement) {
+      const options = fields.contextManagement === true ? {} : fields.contextManagement;
+      const maxInputTokens = options.maxInputTokens ?? this.profile.maxInputTokens;
+      if (!maxInputTokens) {
+        throw new Error(
+          `Context management requires "maxInputTokens" for "${this.agent ?? this.model}", ` +
+            'whose input limit is not known.',
+        );
+      }
+      if (options.strategy === 'summarize' && !this.model && !options.summaryModel) {
+        throw new Error('Summarizing the context of an agent requires a "summaryModel".');
+      }
+      // Gemini 3 models, which use thinking levels, need the thought signatures of every step of the current turn
+      const dropCurrentTurnSteps = this.hasKnownProfile && this.profile.thinking !== 'level';
+      this.contextManager = new ContextManager(
+        { ...options, maxInputTokens, dropCurrentTurnSteps },
+        (prompt, signal) => this.summarizeContext(prompt, signal),
+      );
+    }
   }
 
   _llmType() {
@@ -207,8 +338,13 @@ export class ChatGoogleGenAI extends BaseChatModel<ChatGoogleGenAICallOptions> {
       };
     }
 
+    this.validateCallOptions(options);
+    messages = await this.fitMessagesToContext(messages, options);
     const params = this.invocationParams(options);
-    const { contents, systemInstruction } = convertMessagesToGooglePayload(messages);
+    const { contents, systemInstruction } = convertMessagesToGooglePayload(
+      await this.uploadMessageFiles(messages, options.signal),
+      this.mediaOptions,
+    );
     const tools = this.formatTools(options.tools);
     const toolConfig = this.formatToolConfig(options);
 
@@ -218,6 +354,7 @@ export class ChatGoogleGenAI extends BaseChatModel<ChatGoogleGenAICallOptions> {
       tools,
       toolConfig,
     };
+    this.validateCachedContentConfig(config);
 
     const response = await this.client.models.generateContent({
       model: this.requiredModel,
@@ -226,6 +363,7 @@ export class ChatGoogleGenAI extends BaseChatModel<ChatGoogleGenAICallOptions> {
     });
 
     const generation = convertGoogleResponseToChatGeneration(response);
+    this.attachCost(generation.message as AIMessage);
     return { generations: [generation] };
   }
 
@@ -234,40 +372,82 @@ export class ChatGoogleGenAI extends BaseChatModel<ChatGoogleGenAICallOptions> {
     options: this['ParsedCallOptions'],
     runManager?: CallbackManagerForLLMRun,
   ): AsyncGenerator<ChatGenerationChunk> {
+    this.validateCallOptions(options);
+    messages = await this.fitMessagesToContext(messages, options);
+
     if (this.shouldUseInteractionsApi(options)) {
-      const { input, system_instruction } = convertMessagesToGoogleInteractionPayload(messages);
+      const { input, system_instruction } = convertMessagesToGoogleInteractionPayload(
+        await this.uploadMessageFiles(messages, options.signal),
+        this.mediaOptions,
+      );
 
+      // A background run must not be abandoned before its ID is known, or it could not be cancelled server-side
+      const background = this.isBackground(options);
+      const requestOptions = background ? undefined : { signal: options.signal };
       let stream: AsyncIterable<Interactions.InteractionSSEEvent>;
 
       if (this.agent) {
         stream = (await this.client.interactions.create(
           this.interactiveAgentInvocationParams(input, options, true),
+          requestOptions,
         )) as AsyncIterable<Interactions.InteractionSSEEvent>;
       } else {
         stream = (await this.client.interactions.create(
           this.interactiveInvocationParams(input, system_instruction, options, true),
+          requestOptions,
         )) as AsyncIterable<Interactions.InteractionSSEEvent>;
       }
 
-      for await (const event of stream) {
-        const chunk = makeMessageChunkFromGoogleInteractionEvent(event);
-        if (chunk) {
-          const generationChunk = new ChatGenerationChunk({
-            message: chunk,
-            text: chunk.text ?? '',
-          });
-          yield generationChunk;
-          await runManager?.handleLLMNewToken(chunk.text ?? '', undefined, undefined, undefined, undefined, {
-            chunk: generationChunk,
-          });
+      // Once a background interaction is known, aborting the call also cancels it server-side.
+      // Its stream is read without the signal, so the abort is checked between events.
+      let stopCancelOnAbort: (() => void) | undefined;
+      let usage: UsageMetadata | undefined;
+      const citations = new InteractionStreamCitations();
+      try {
+        for await (const event of this.resumeInteractionStreamOnError(stream, options)) {
+          citations.add(event);
+          const interactionId = getInteractionIdFromEvent(event);
+          if (!stopCancelOnAbort && background && interactionId) {
+            stopCancelOnAbort = this.cancelInteractionOnAbort(interactionId, options.signal);
+          }
+          if (stopCancelOnAbort) {
+            options.signal?.throwIfAborted();
+          }
+
+          const chunk = makeMessageChunkFromGoogleInteractionEvent(event);
+          if (chunk) {
+            usage = chunk.usage_metadata ?? usage;
+            const generationChunk = new ChatGenerationChunk({
+              message: chunk,
+              text: chunk.text ?? '',
+            });
+            yield generationChunk;
+            await runManager?.handleLLMNewToken(chunk.text ?? '', undefined, undefined, undefined, undefined, {
+              chunk: generationChunk,
+            });
+          }
         }
+      } finally {
+        stopCancelOnAbort?.();
+      }
+
+      const citationsChunk = citations.makeCitationsChunk();
+      if (citationsChunk) {
+        yield citationsChunk;
+      }
+      const costChunk = this.makeCostChunk(usage);
+      if (costChunk) {
+        yield costChunk;
       }
       return;
     }
 
     // Standard API stream
     const params = this.invocationParams(options);
-    const { contents, systemInstruction } = convertMessagesToGooglePayload(messages);
+    const { contents, systemInstruction } = convertMessagesToGooglePayload(
+      await this.uploadMessageFiles(messages, options.signal),
+      this.mediaOptions,
+    );
     const tools = this.formatTools(options.tools);
     const toolConfig = this.formatToolConfig(options);
 
@@ -277,6 +457,7 @@ export class ChatGoogleGenAI extends BaseChatModel<ChatGoogleGenAICallOptions> {
       tools,
       toolConfig,
     };
+    this.validateCachedContentConfig(config);
 
     const stream = await this.client.models.generateContentStream({
       model: this.requiredModel,
@@ -284,15 +465,36 @@ export class ChatGoogleGenAI extends BaseChatModel<ChatGoogleGenAICallOptions> {
       config,
     });
 
+    let previousUsage: UsageMetadata | undefined;
+    let streamedText = '';
+    let groundingMetadata: GroundingMetadata | undefined;
     for await (const chunk of stream) {
+      groundingMetadata = chunk.candidates?.[0]?.groundingMetadata ?? groundingMetadata;
       const generationChunk = convertGoogleStreamChunkToLangChainChunk(chunk);
       if (generationChunk) {
+        streamedText += generationChunk.text;
+        // Usage is cumulative across chunks, so each chunk only reports what was added since the last one
+        const message = generationChunk.message as AIMessageChunk;
+        if (message.usage_metadata) {
+          const usage = message.usage_metadata;
+          message.usage_metadata = subtractUsageMetadata(usage, previousUsage);
+          previousUsage = usage;
+        }
         yield generationChunk;
         await runManager?.handleLLMNewToken(generationChunk.text ?? '', undefined, undefined, undefined, undefined, {
           chunk: generationChunk,
         });
       }
     }
+
+    const citationsChunk = groundingMetadata && makeStreamCitationsChunk(groundingMetadata, streamedText);
+    if (citationsChunk) {
+      yield citationsChunk;
+    }
+    const costChunk = this.makeCostChunk(previousUsage);
+    if (costChunk) {
+      yield costChunk;
+    }
   }
 
   override invocationParams(options?: this['ParsedCallOptions']): GenerateContentConfig {
@@ -305,8 +507,13 @@ export class ChatGoogleGenAI extends BaseChatModel<ChatGoogleGenAICallOptions> {
       topK: this.topK,
       safetySettings: this.safetySettings,
       thinkingConfig: this.thinkingConfig,
+      responseModalities: options?.responseModalities ?? this.responseModalities,
+      imageConfig: this.imageConfig,
+      speechConfig: options?.speechConfig ?? this.speechConfig,
       responseMimeType: options?.responseMimeType,
       responseSchema: options?.responseSchema,
+      responseJsonSchema: options?.responseSchema ? undefined : options?.responseJsonSchema,
+      cachedContent: options?.cachedContent,
     };
   }
 
@@ -329,9 +536,34 @@ export class ChatGoogleGenAI extends BaseChatModel<ChatGoogleGenAICallOptions> {
       stop_sequences: config.stopSequences,
       thinking_level: thinkingLevel,
       thinking_summaries: config.thinkingConfig?.includeThoughts ? 'auto' : undefined,
+      speech_config: this.convertToInteractionSpeechConfig(config.speechConfig),
     };
   }
 
+  private convertToInteractionSpeechConfig(
+    speechConfig: GenerateContentConfig['speechConfig'],
+  ): Interactions.SpeechConfig[] | undefined {
+    if (!speechConfig || typeof speechConfig === 'string') {
+      return speechConfig ? [{ voice: speechConfig }] : undefined;
+    }
+
+    const speakers = speechConfig.multiSpeakerVoiceConfig?.speakerVoiceConfigs;
+    if (speakers?.length) {
+      return speakers.map(speaker => ({
+        speaker: speaker.speaker,
+        voice: speaker.voiceConfig?.prebuiltVoiceConfig?.voiceName,
+        language: speechConfig.languageCode,
+      }));
+    }
+
+    return [
+      {
+        voice: speechConfig.voiceConfig?.prebuiltVoiceConfig?.voiceName,
+        language: speechConfig.languageCode,
+      },
+    ];
+  }
+
   override bindTools(
     tools: ChatGoogleGenAICallOptions['tools'],
     kwargs?: Partial<ChatGoogleGenAICallOptions>,
@@ -393,23 +625,54 @@ export class ChatGoogleGenAI extends BaseChatModel<ChatGoogleGenAICallOptions> {
 
       llm = this.withConfig({
         responseMimeType: 'application/json',
-        responseSchema: jsonSchema as Schema,
+        ...this.formatResponseSchema(jsonSchema),
+      });
+
+      outputParser = new StructuredJsonOutputParser<RunOutput>({
+        zodSchema: isInteropZodSchema(schema) ? schema : undefined,
       });
+    } else if (method === 'functionCalling') {
+      // Bind a single synthetic tool and force the model to call it
+      const functionName = config?.name ?? 'extract';
+      const jsonSchema = isInteropZodSchema(schema) ? toJsonSchema(schema) : schema;
 
-      outputParser = new JsonOutputParser<RunOutput>();
+      llm = this.bindTools(
+        [
+          {
+            type: 'function',
+            name: functionName,
+            description: jsonSchema.description ?? 'Extracts structured output matching the given schema.',
+            parameters: jsonSchema,
+          },
+        ],
+        { tool_choice: functionName },
+      );
+
+      outputParser = new JsonOutputKeyToolsParser<RunOutput>({
+        keyName: functionName,
+        returnSingle: true,
+        zodSchema: isInteropZodSchema(schema) ? schema : undefined,
+      });
     } else {
-      throw new Error(`Unrecognized structured output method '${method}'. Google GenAI supports 'jsonSchema'.`);
+      throw new Error(
+        `Unrecognized structured output method '${method}'. Google GenAI supports 'jsonSchema' and 'functionCalling'.`,
+      );
     }
 
     if (includeRaw) {
+      // As with other LangChain providers, output that fails to parse yields `parsed: null` next to the raw message
+      const parserAssign = RunnablePassthrough.assign({
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        parsed: (input: any, runConfig) => outputParser.invoke(input.raw, runConfig),
+      });
+      const parserNone = RunnablePassthrough.assign({
+        parsed: () => null,
+      });
       return RunnableSequence.from([
         {
           raw: llm,
         },
-        {
-          raw: input => input.raw,
-          parsed: input => outputParser.invoke(input.raw),
-        },
+        parserAssign.withFallbacks({ fallbacks: [parserNone] }),
       ]);
     }
 
@@ -420,40 +683,198 @@ export class ChatGoogleGenAI extends BaseChatModel<ChatGoogleGenAICallOptions> {
    * Public method to retrieve an interaction's status and results.
    */
   async getInteraction(interactionId: string): Promise<BaseMessage> {
-    const interaction = await this.client.interactions.get(interactionId);
+    const interaction = (await this.client.interactions.get(interactionId)) as Interactions.Interaction;
     const [generation] = convertInteractionToChatGeneration(interaction);
     return generation.message;
   }
 
-  private formatToolConfig(options: this['ParsedCallOptions']): ToolConfig | undefined {
-    if (options.toolConfig) return options.toolConfig;
+  /**
+   * Cancels a background interaction that is still running and returns its final state.
+   */
+  async cancelInteraction(interactionId: string): Promise<AIMessage> {
+    const interaction = await this.client.interactions.cancel(interactionId);
+    const [generation] = convertInteractionToChatGeneration(interaction);
+    return generation.message as AIMessage;
+  }
 
-    if (options.tool_choice) {
-      if (typeof options.tool_choice === 'string') {
-        const modeMap: Record<string, FunctionCallingConfigMode> = {
-          AUTO: FunctionCallingConfigMode.AUTO,
-          ANY: FunctionCallingConfigMode.ANY,
-          NONE: FunctionCallingConfigMode.NONE,
-        };
-        const choice = options.tool_choice.toUpperCase();
-        if (choice in modeMap) {
-          return {
-            functionCallingConfig: {
-              mode: modeMap[choice],
-            },
-          };
-        }
-      } else if (typeof options.tool_choice === 'object') {
-        // Handle the case where tool_choice is already a ToolConfig-compatible object
-        const toolChoiceObj = options.tool_choice;
-        if ('functionCallingConfig' in toolChoiceObj || 'mode' in toolChoiceObj) {
-          return {
-            functionCallingConfig: toolChoiceObj as { mode: FunctionCallingConfigMode },
-          };
+  /**
+   * Deletes an interaction stored with `store: true`.
+   */
+  async deleteInteraction(interactionId: string): Promise<void> {
+    await this.client.interactions.delete(interactionId);
+  }
+
+  /**
+   * Polls a background interaction until it reaches a terminal status
+   * ('completed', 'failed', 'cancelled' or 'requires_action') and returns the final message.
+   * The status is available in `response_metadata.finish_reason`.
+   */
+  async waitForInteraction(interactionId: string, options?: WaitForInteractionOptions): Promise<AIMessage> {
+    const backoff = options?.backoff ?? 1;
+    const maxPollInterval = options?.maxPollInterval ?? 60000;
+    const deadline = options?.timeout !== undefined ? Date.now() + options.timeout : undefined;
+    let delay = options?.pollInterval ?? 5000;
+
+    for (let attempt = 1; ; attempt++) {
+      options?.signal?.throwIfAborted();
+
+      const interaction = (await this.client.interactions.get(interactionId, undefined, {
+        signal: options?.signal,
+      })) as Interactions.Interaction;
+      const [generation] = convertInteractionToChatGeneration(interaction);
+      const message = generation.message as AIMessage;
+
+      await options?.onProgress?.({
+        status: interaction.status,
+        interaction,
+        message,
+        attempt,
+      });
+
+      if (isTerminalInteractionStatus(interaction.status)) {
+        return message;
+      }
+
+      let wait = delay;
+      if (deadline !== undefined) {
+        const remaining = deadline - Date.now();
+        if (remaining <= 0) {
+          throw new Error(
+            `Timed out after ${options?.timeout}ms waiting for interaction "${interactionId}" ` +
+              `(last status: ${interaction.status}).`,
+          );
         }
+        wait = Math.min(wait, remaining);
+      }
+
+      await sleep(wait, options?.signal);
+      delay = Math.min(delay * backoff, maxPollInterval);
+    }
+  }
+
+  /**
+   * Counts the tokens of a prompt as Gemini does, running the same payload as a call through `countTokens`.
+   * The Gemini Developer API cannot count the system instruction and tools as such, so the system instruction
+   * is counted as a leading turn and the tools are estimated locally. Falls back to a local estimate when
+   * `offline` is set, no model is configured (agents), or the model does not support token counting.
+   */
+  async countMessagesTokens(messages: BaseMessage[], options?: CountTokensOptions): Promise<number> {
+    const tools = this.formatTools(options?.tools);
+    if (options?.offline || !this.model || !this.client.models.countTokens) {
+      const { contents, systemInstruction } = convertMessagesToGooglePayload(messages, this.mediaOptions);
+      return estimateTokenCount(contents, systemInstruction, tools);
+    }
+
+    const { contents, systemInstruction } = convertMessagesToGooglePayload(
+      await this.uploadMessageFiles(messages, options?.signal),
+      this.mediaOptions,
+    );
+
+    try {
+      if (this.client.vertexai) {
+        const response = await this.client.models.countTokens({
+          model: this.model,
+          contents,
+          config: { systemInstruction: systemInstruction?.parts, tools, abortSignal: options?.signal },
+        });
+        return response.totalTokens ?? 0;
       }
+
+      const response = await this.client.models.countTokens({
+        model: this.model,
+        contents: systemInstruction ? [{ role: 'user', parts: systemInstruction.parts }, ...contents] : contents,
+        config: { abortSignal: options?.signal },
+      });
+      return (response.totalTokens ?? 0) + (tools ? estimateTokenCount([], undefined, tools) : 0);
+    } catch (error) {
+      // Models without token counting are rejected as not found, anything else is a real failure
+      if (error instanceof ApiError && (error.status === 404 || /not supported for countTokens/i.test(error.message))) {
+        return estimateTokenCount(contents, systemInstruction, tools);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Counts the tokens of a message content with `countMessagesTokens`.
+   */
+  override async getNumTokens(content: MessageContent): Promise<number> {
+    return this.countMessagesTokens([new HumanMessage({ content })]);
+  }
+
+  /**
+   * Caches a prompt prefix, e.g. a long document and the system instructions, for reuse across calls.
+   * Pass the returned `name` as the `cachedContent` call option and send only the messages that follow.
+   */
+  async createCachedContent(messages: BaseMessage[], options?: CachedContentOptions): Promise<CachedContent> {
+    const { contents, systemInstruction } = convertMessagesToGooglePayload(
+      await this.uploadMessageFiles(messages),
+      this.mediaOptions,
+    );
+
+    return this.requiredCaches.create({
+      model: this.requiredModel,
+      config: {
+        contents,
+        systemInstruction: systemInstruction?.parts,
+        tools: this.formatTools(options?.tools),
+        toolConfig: this.formatToolConfig({ tool_choice: options?.tool_choice }),
+        ttl: options?.ttl,
+        expireTime: options?.expireTime,
+        displayName: options?.displayName,
+      },
+    });
+  }
+
+  /**
+   * Lists the cached contents of the project. Only their metadata is returned, not the cached messages.
+   */
+  async listCachedContents(): Promise<CachedContent[]> {
+    const cachedContents: CachedContent[] = [];
+    for await (const cachedContent of await this.requiredCaches.list()) {
+      cachedContents.push(cachedContent);
+    }
+    return cachedContents;
+  }
+
+  /**
+   * Extends (or shortens) the lifetime of a cached content.
+   */
+  async refreshCachedContent(name: string, expiration: CachedContentExpiration): Promise<CachedContent> {
+    return this.requiredCaches.update({
+      name,
+      config: {
+        ttl: expiration.ttl,
+        expireTime: expiration.expireTime,
+      },
+    });
+  }
+
+  /**
+   * Deletes a cached content before it expires.
+   */
+  async deleteCachedContent(name: string): Promise<void> {
+    await this.requiredCaches.delete({ name });
+  }
+
+  private formatToolConfig(
+    options: Pick<ChatGoogleGenAICallOptions, 'toolConfig' | 'tool_choice'>,
+  ): ToolConfig | undefined {
+    if (options.toolConfig) return options.toolConfig;
+
+    // A complete ToolConfig (e.g. with retrievalConfig) is passed through as-is
+    if (typeof options.tool_choice === 'object' && 'functionCallingConfig' in options.tool_choice) {
+      return options.tool_choice as ToolConfig;
     }
-    return undefined;
+
+    const toolChoice = normalizeToolChoice(options.tool_choice);
+    if (!toolChoice) return undefined;
+    return {
+      functionCallingConfig: {
+        mode: toolChoice.mode.toUpperCase() as FunctionCallingConfigMode,
+        allowedFunctionNames: toolChoice.allowedFunctionNames,
+      },
+    };
   }
 
   private formatTools(tools?: ChatGoogleGenAICallOptions['tools']): Tool[] | undefined {
@@ -465,19 +886,27 @@ export class ChatGoogleGenAI extends BaseChatModel<ChatGoogleGenAICallOptions> {
     const googleTools: Tool[] = [];
 
     for (const tool of toolList) {
-      // Check if it's a Google Interaction Tool (Tool_2) or standard Tool
-      if ('functionDeclarations' in tool || 'googleSearch' in tool || 'codeExecution' in tool) {
-        googleTools.push(tool as Tool);
+      // Built-in tools and function sets, in either the standard or the Interactions format
+      if (isGoogleTool(tool)) {
+        googleTools.push(tool);
+        continue;
+      }
+      if (isInteractionTool(tool)) {
+        if (tool.type === 'function') {
+          functionDeclarations.push(
+            this.formatFunctionDeclaration(tool.name ?? '', tool.description, tool.parameters as JsonSchema),
+          );
+        } else {
+          googleTools.push(convertInteractionToolToGoogleTool(tool));
+        }
         continue;
       }
       const lcTool = tool as BindToolsInput;
       if (isStructuredTool(lcTool)) {
         const schema = isInteropZodSchema(lcTool.schema) ? toJsonSchema(lcTool.schema) : lcTool.schema;
-        functionDeclarations.push({
-          name: lcTool.name,
-          description: lcTool.description,
-          parameters: schema as Schema,
-        });
+        functionDeclarations.push(
+          this.formatFunctionDeclaration(lcTool.name, lcTool.description, schema as JsonSchema),
+        );
       }
     }
 
@@ -488,39 +917,55 @@ export class ChatGoogleGenAI extends BaseChatModel<ChatGoogleGenAICallOptions> {
     return googleTools.length > 0 ? googleTools : undefined;
   }
 
-  private formatInteractionToolConfig(options: this['ParsedCallOptions']): Interactions.ToolChoice | undefined {
-    if (options.tool_choice) {
-      if (typeof options.tool_choice === 'string') {
-        const modeMap: Record<string, string> = {
-          AUTO: 'auto',
-          ANY: 'any',
-          NONE: 'none',
-        };
-        const choice = options.tool_choice.toUpperCase();
-        if (choice in modeMap) {
-          return {
-            allowed_tools: {
-              mode: modeMap[choice] as 'auto' | 'any' | 'none',
-            },
-          };
-        }
-      } else if (typeof options.tool_choice === 'object') {
-        // Assume compatible object
-        return options.tool_choice as Interactions.ToolChoice;
-      }
+  /**
+   * Builds a function declaration, converting its JSON Schema parameters to Gemini's `Schema`.
+   * Schemas that cannot be expressed are sent as JSON Schema to models that accept it.
+   */
+  private formatFunctionDeclaration(name: string, description: string | undefined, schema: JsonSchema) {
+    const converted = this.convertJsonSchema(schema);
+    return 'schema' in converted
+      ? { name, description, parameters: converted.schema }
+      : { name, description, parametersJsonSchema: converted.jsonSchema };
+  }
+
+  /**
+   * Sets the response schema for JSON output, like formatFunctionDeclaration does for parameters.
+   * The Interactions API takes JSON Schema as-is.
+   */
+  private formatResponseSchema(
+    schema: JsonSchema,
+  ): Pick<ChatGoogleGenAICallOptions, 'responseSchema' | 'responseJsonSchema'> {
+    if (this.useExperimentalInteractionsApi) {
+      return { responseJsonSchema: stripJsonSchemaMetadata(schema) };
     }
-    // Map toolConfig to Interactions tool choice if possible
-    if (options.toolConfig?.functionCallingConfig) {
-      const mode = options.toolConfig.functionCallingConfig.mode;
-      const modeString =
-        mode === FunctionCallingConfigMode.AUTO ? 'auto' : mode === FunctionCallingConfigMode.ANY ? 'any' : 'none';
-      return {
-        allowed_tools: {
-          mode: modeString,
-        },
-      };
+    const converted = this.convertJsonSchema(schema);
+    return 'schema' in converted ? { responseSchema: converted.schema } : { responseJsonSchema: converted.jsonSchema };
+  }
+
+  private convertJsonSchema(schema: JsonSchema): { schema: Schema } | { jsonSchema: JsonSchema } {
+    try {
+      return { schema: convertJsonSchemaToGoogleSchema(schema) };
+    } catch (error) {
+      if (supportsJsonSchema(this.model)) {
+        return { jsonSchema: stripJsonSchemaMetadata(schema) };
+      }
+      throw new Error(
+        `The schema cannot be expressed as a Gemini Schema and ${this.model ?? 'this model'} does not accept ` +
+          `JSON Schema: ${(error as Error).message}`,
+      );
     }
-    return undefined;
+  }
+
+  private formatInteractionToolConfig(options: this['ParsedCallOptions']): Interactions.ToolChoice | undefined {
+    // Fall back to the standard toolConfig if no tool_choice is given
+    const toolChoice = normalizeToolChoice(options.tool_choice ?? options.toolConfig);
+    if (!toolChoice) return undefined;
+    return {
+      allowed_tools: {
+        mode: toolChoice.mode,
+        tools: toolChoice.allowedFunctionNames,
+      },
+    };
   }
 
   private formatInteractionTools(tools?: ChatGoogleGenAICallOptions['tools']): Interactions.Tool[] | undefined {
@@ -532,39 +977,18 @@ export class ChatGoogleGenAI extends BaseChatModel<ChatGoogleGenAICallOptions> {
 
     for (const tool of toolList) {
       // Check if it's already a Google Interaction Tool (snake_case)
-      // Tool_2 is a union of specific interfaces, so we check for 'type' or properties
-      if (
-        'type' in tool &&
-        (tool.type === 'function' || tool.type === 'google_search' || tool.type === 'code_execution')
-      ) {
-        googleTools.push(tool as Interactions.Tool);
+      if (isInteractionTool(tool)) {
+        googleTools.push(tool);
         continue;
       }
 
       // Check if it's a Standard Tool (camelCase) and convert
-      if ('functionDeclarations' in tool) {
-        // Convert Standard FunctionDeclarations to Interaction Format (Function_2)
-        const funcs = (tool as Tool).functionDeclarations;
-        if (funcs) {
-          for (const func of funcs) {
-            googleTools.push({
-              type: 'function',
-              name: func.name,
-              description: func.description,
-              parameters: func.parameters as Schema,
-            });
-          }
-        }
-        // Handle other standard tools if needed (googleSearch, etc.)
-        if ('googleSearch' in tool) {
-          googleTools.push({ type: 'google_search' });
-        }
-        if ('codeExecution' in tool) {
-          googleTools.push({ type: 'code_execution' });
-        }
+      if (isGoogleTool(tool)) {
+        googleTools.push(...convertGoogleToolToInteractionTools(tool));
         continue;
       }
 
+      // The Interactions API takes JSON Schema parameters, without the metadata keys of JSON Schema tooling
       const lcTool = tool as BindToolsInput;
       if (isStructuredTool(lcTool)) {
         const schema = isInteropZodSchema(lcTool.schema) ? toJsonSchema(lcTool.schema) : lcTool.schema;
@@ -572,7 +996,7 @@ export class ChatGoogleGenAI extends BaseChatModel<ChatGoogleGenAICallOptions> {
           type: 'function',
           name: lcTool.name,
           description: lcTool.description,
-          parameters: schema as Schema,
+          parameters: stripJsonSchemaMetadata(schema as JsonSchema),
         });
       }
     }
@@ -617,13 +1041,208 @@ export class ChatGoogleGenAI extends BaseChatModel<ChatGoogleGenAICallOptions> {
         tool_choice,
       },
       response_mime_type: params.responseMimeType,
-      response_format: params.responseSchema,
+      response_format: params.responseJsonSchema ?? params.responseSchema,
+      response_modalities: params.responseModalities?.map(
+        modality => modality.toLowerCase() as 'text' | 'image' | 'audio',
+      ),
       background: options.background ?? this.background,
       stream,
       store: this.store,
     };
   }
 
+  private isBackground(options: this['ParsedCallOptions']): boolean {
+    return !!(options.background ?? this.background);
+  }
+
+  /**
+   * Cancels the interaction server-side when the signal is aborted (immediately if it already is).
+   * Returns a function that stops listening.
+   */
+  private cancelInteractionOnAbort(interactionId: string, signal?: AbortSignal): () => void {
+    if (!signal) return () => {};
+
+    const onAbort = () => {
+      this.cancelInteraction(interactionId).catch(() => {
+        // Best effort: the interaction may already have finished.
+      });
+    };
+
+    if (signal.aborted) {
+      onAbort();
+      return () => {};
+    }
+
+    signal.addEventListener('abort', onAbort, { once: true });
+    return () => signal.removeEventListener('abort', onAbort);
+  }
+
+  /**
+   * Yields the events of an Interactions API stream. If the connection drops, reconnects
+   * and resumes after the last received event, skipping any event that was already yielded.
+   */
+  private async *resumeInteractionStreamOnError(
+    stream: AsyncIterable<Interactions.InteractionSSEEvent>,
+    options: this['ParsedCallOptions'],
+  ): AsyncGenerator<Interactions.InteractionSSEEvent> {
+    const seenEventIds = new Set<string>();
+    let current: AsyncIterable<Interactions.InteractionSSEEvent> | undefined = stream;
+    let interactionId: string | undefined;
+    let lastEventId: string | undefined;
+    let retries = 0;
+
+    while (true) {
+      try {
+        if (!current) {
+          current = (await this.client.interactions.get(
+            interactionId as string,
+            { stream: true, last_event_id: lastEventId },
+            { signal: options.signal },
+          )) as AsyncIterable<Interactions.InteractionSSEEvent>;
+        }
+
+        for await (const event of current) {
+          if (event.event_id) {
+            if (seenEventIds.has(event.event_id)) continue;
+            seenEventIds.add(event.event_id);
+            lastEventId = event.event_id;
+          }
+          interactionId ??= getInteractionIdFromEvent(event);
+          retries = 0;
+          yield event;
+        }
+        return;
+      } catch (error) {
+        const canResume = this.store !== false && interactionId !== undefined && lastEventId !== undefined;
+        if (options.signal?.aborted || !canResume || retries >= this.maxStreamRetries) {
+          throw error;
+        }
+        retries++;
+        current = undefined;
+        await sleep(Math.min(1000 * 2 ** (retries - 1), 10000), options.signal);
+      }
+    }
+  }
+
+  /**
+   * Estimates the cost of a call from its usage with the prices of the model or agent.
+   */
+  private estimateCost(usage?: UsageMetadata): CostEstimate | undefined {
+    const name = this.agent ?? this.model;
+    if (!usage || !name) return undefined;
+    return estimateCost(name, usage, this.pricing);
+  }
+
+  private attachCost(message: AIMessage): void {
+    const cost = this.estimateCost(message.usage_metadata);
+    if (cost) {
+      message.response_metadata = { ...message.response_metadata, cost };
+    }
+  }
+
+  /**
+   * Streams report usage incrementally, so the cost of the whole call is sent in a last, empty chunk.
+   */
+  private makeCostChunk(usage?: UsageMetadata): ChatGenerationChunk | undefined {
+    const cost = this.estimateCost(usage);
+    if (!cost) return undefined;
+    return new ChatGenerationChunk({
+      message: new AIMessageChunk({ content: '', response_metadata: { cost } }),
+      text: '',
+    });
+  }
+
+  /**
+   * The API rejects a system instruction, tools or a tool config next to cached content,
+   * so they must be part of the cache instead.
+   */
+  private validateCachedContentConfig(config: GenerateContentConfig): void {
+    if (!config.cachedContent) return;
+    const conflicts = [
+      config.systemInstruction && 'system messages',
+      config.tools && 'tools',
+      config.toolConfig && 'a tool choice',
+    ].filter(Boolean);
+    if (conflicts.length > 0) {
+      throw new Error(
+        `Calls with "cachedContent" cannot send ${conflicts.join(', ')}. ` +
+          'Pass them to createCachedContent so that they are part of the cache.',
+      );
+    }
+  }
+
+  /**
+   * Checks the call options against the model profile before anything is sent.
+   * Each warning about ignored options is logged once per instance.
+   */
+  private validateCallOptions(options: this['ParsedCallOptions']): void {
+    if (options.cachedContent && this.shouldUseInteractionsApi(options)) {
+      throw new Error('"cachedContent" is not supported by the Interactions API.');
+    }
+    const warnings = validateCallAgainstProfile({
+      name: this.model ?? this.requiredAgent,
+      profile: this.hasKnownProfile ? this.profile : undefined,
+      config: this.invocationParams(options),
+      interactionsApi: this.shouldUseInteractionsApi(options),
+      functionCalling: (options.tools ?? []).some(tool =>
+        isGoogleTool(tool)
+          ? !!tool.functionDeclarations?.length
+          : !isInteractionTool(tool) || tool.type === 'function',
+      ),
+    });
+    for (const warning of warnings) {
+      if (!this.loggedWarnings.has(warning)) {
+        this.loggedWarnings.add(warning);
+        console.warn(warning);
+      }
+    }
+  }
+
+  /**
+   * Trims or summarizes the oldest turns when `contextManagement` is enabled and the prompt exceeds the budget.
+   * Stateful conversations are left alone since their history is kept server-side.
+   */
+  private async fitMessagesToContext(
+    messages: BaseMessage[],
+    options: this['ParsedCallOptions'],
+  ): Promise<BaseMessage[]> {
+    if (!this.contextManager || options.previousInteractionId) {
+      return messages;
+    }
+    return this.contextManager.fitMessages(
+      messages,
+      (candidates, offline) =>
+        this.countMessagesTokens(candidates, { tools: options.tools, offline, signal: options.signal }),
+      options.signal,
+    );
+  }
+
+  /**
+   * Writes a summary of older turns for context management with a plain request to this model.
+   */
+  private async summarizeContext(prompt: string, signal?: AbortSignal): Promise<string> {
+    const response = await this.client.models.generateContent({
+      model: this.requiredModel,
+      contents: [{ role: 'user', parts: [{ text: prompt }] }],
+      config: { abortSignal: signal },
+    });
+    return response.text ?? '';
+  }
+
+  private get mediaOptions(): MediaParsingOptions {
+    return { sniffMimeTypes: this.sniffMimeTypes };
+  }
+
+  /**
+   * Uploads local and large media through the Files API when `autoUploadFiles` is enabled.
+   */
+  private async uploadMessageFiles(messages: BaseMessage[], signal?: AbortSignal): Promise<BaseMessage[]> {
+    if (!this.fileUploader) {
+      return messages;
+    }
+    return this.fileUploader.uploadMessageFiles(messages, signal);
+  }
+
   /**
    * Determines if the Interactions API should be used based on call options.
    */
@@ -636,8 +1255,6 @@ export class ChatGoogleGenAI extends BaseChatModel<ChatGoogleGenAICallOptions> {
     options: this['ParsedCallOptions'],
     runManager?: CallbackManagerForLLMRun,
   ): Promise<ChatResult> {
-    const { input, system_instruction } = convertMessagesToGoogleInteractionPayload(messages);
-
     if (this.streaming) {
       const stream = this._streamResponseChunks(messages, options, runManager);
       let finalChunk: ChatGenerationChunk | undefined;
@@ -654,19 +1271,40 @@ export class ChatGoogleGenAI extends BaseChatModel<ChatGoogleGenAICallOptions> {
       return { generations: [{ text: finalChunk.text, message: finalChunk.message }] };
     }
 
+    this.validateCallOptions(options);
+    messages = await this.fitMessagesToContext(messages, options);
+
+    const { input, system_instruction } = convertMessagesToGoogleInteractionPayload(
+      await this.uploadMessageFiles(messages, options.signal),
+      this.mediaOptions,
+    );
+
+    // A background run must not be abandoned before its ID is known, or it could not be cancelled server-side
+    const requestOptions = this.isBackground(options) ? undefined : { signal: options.signal };
     let interaction: Interactions.Interaction;
 
     if (this.agent) {
       interaction = (await this.client.interactions.create(
         this.interactiveAgentInvocationParams(input, options, false),
+        requestOptions,
       )) as Interactions.Interaction;
     } else {
       interaction = (await this.client.interactions.create(
         this.interactiveInvocationParams(input, system_instruction, options, false),
+        requestOptions,
       )) as Interactions.Interaction;
     }
 
+    // The call was aborted while the background interaction was being created
+    if (this.isBackground(options) && options.signal?.aborted) {
+      this.cancelInteractionOnAbort(interaction.id, options.signal);
+      options.signal.throwIfAborted();
+    }
+
     const generations = convertInteractionToChatGeneration(interaction);
+    for (const generation of generations) {
+      this.attachCost(generation.message as AIMessage);
+    }
     return { generations };
   }
 }
@@ -0,0 +1,247 @@
+import {
+  type CachedContent,
+  FileState,
+  type File as GoogleFile,
+  GenerateContentResponse,
+  type GenerateContentParameters,
+  type Interactions,
+} from '@google/genai';
+
+import { type GoogleGenAIClient } from './types.js';
+
+/**
+ * A scripted `generateContent` response. Plain objects are accepted in place of SDK class instances.
+ */
+export type FakeGenerateContentResponse = Partial<GenerateContentResponse>;
+
+/**
+ * Scripted responses served by FakeGoogleGenAIClient, each queue consumed in order.
+ * Any entry (or any item within a stream) may be an `Error`, which is thrown in its place.
+ */
+export interface FakeGoogleGenAIClientFields {
+  /**
+   * Responses returned by `models.generateContent`.
+   */
+  responses?: Array<FakeGenerateContentResponse | Error>;
+
+  /**
+   * Chunk sequences returned by `models.generateContentStream`, one sequence per call.
+   */
+  streams?: Array<Array<FakeGenerateContentResponse | Error>>;
+
+  /**
+   * Interactions returned by non-streaming `interactions.create` and `interactions.get`.
+   */
+  interactions?: Array<Interactions.Interaction | Error>;
+
+  /**
+   * Event sequences returned by streaming `interactions.create` and `interactions.get`, one sequence per call.
+   */
+  interactionStreams?: Array<Array<Interactions.InteractionSSEEvent | Error>>;
+}
+
+/**
+ * A recorded call made against FakeGoogleGenAIClient.
+ */
+export interface FakeGoogleGenAIClientCall {
+  method: string;
+  params: unknown;
+}
+
+/**
+ * Offline stand-in for the Google GenAI client that serves scripted responses.
+ * Pass it as `client` to ChatGoogleGenAI to exercise the converters and tool flows without network access.
+ * Every request is recorded in `calls` for assertions.
+ */
+export class FakeGoogleGenAIClient implements GoogleGenAIClient {
+  readonly calls: FakeGoogleGenAIClientCall[] = [];
+
+  private responses: Array<FakeGenerateContentResponse | Error>;
+
+  private streams: Array<Array<FakeGenerateContentResponse | Error>>;
+
+  private interactionResponses: Array<Interactions.Interaction | Error>;
+
+  private interactionStreams: Array<Array<Interactions.InteractionSSEEvent | Error>>;
+
+  private uploadedFiles = new Map<string, GoogleFile>();
+
+  private cachedContents = new Map<string, CachedContent>();
+
+  private cacheCount = 0;
+
+  readonly models: GoogleGenAIClient['models'] = {
+    generateContent: async (params: GenerateContentParameters) => {
+      this.calls.push({ method: 'models.generateContent', params });
+      return toGenerateContentResponse(takeNext(this.responses, 'models.generateContent'));
+    },
+    generateContentStream: async (params: GenerateContentParameters) => {
+      this.calls.push({ method: 'models.generateContentStream', params });
+      const chunks = takeNext(this.streams, 'models.generateContentStream');
+      return (async function* () {
+        for (const chunk of chunks) {
+          yield toGenerateContentResponse(chunk);
+        }
+      })();
+    },
+  };
+
+  readonly interactions: GoogleGenAIClient['interactions'] = {
+    create: async params => {
+      this.calls.push({ method: 'interactions.create', params });
+      return params.stream
+        ? replayEvents(takeNext(this.interactionStreams, 'interactions.create'))
+        : takeNext(this.interactionResponses, 'interactions.create');
+    },
+    get: async (id, params) => {
+      this.calls.push({ method: 'interactions.get', params: { id, ...params } });
+      return params?.stream
+        ? replayEvents(takeNext(this.interactionStreams, 'interactions.get'))
+        : takeNext(this.interactionResponses, 'interactions.get');
+    },
+    cancel: async id => {
+      this.calls.push({ method: 'interactions.cancel', params: { id } });
+      return { id, status: 'cancelled' };
+    },
+    delete: async id => {
+      this.calls.push({ method: 'interactions.delete', params: { id } });
+      return {};
+    },
+  };
+
+  /**
+   * Uploads complete immediately and return an ACTIVE file with a fake URI.
+   */
+  readonly files: NonNullable<GoogleGenAIClient['files']> = {
+    upload: async params => {
+      this.calls.push({ method: 'files.upload', params });
+      const name = `files/fake-${this.uploadedFiles.size + 1}`;
+      const file: GoogleFile = {
+        name,
+        uri: `https://generativelanguage.googleapis.com/v1beta/${name}`,
+        mimeType: params.config?.mimeType,
+        state: FileState.ACTIVE,
+      };
+      this.uploadedFiles.set(name, file);
+      return file;
+    },
+    get: async params => {
+      this.calls.push({ method: 'files.get', params });
+      const file = this.uploadedFiles.get(params.name);
+      if (!file) {
+        throw new Error(`FakeGoogleGenAIClient: file "${params.name}" was not uploaded.`);
+      }
+      return file;
+    },
+  };
+
+  /**
+   * Cached contents are kept in memory. Only their metadata is stored, like the real API returns.
+   */
+  readonly caches: NonNullable<GoogleGenAIClient['caches']> = {
+    create: async params => {
+      this.calls.push({ method: 'caches.create', params });
+      const name = `cachedContents/fake-${++this.cacheCount}`;
+      const now = new Date();
+      const cachedContent: CachedContent = {
+        name,
+        displayName: params.config?.displayName,
+        model: params.model,
+        createTime: now.toISOString(),
+        updateTime: now.toISOString(),
+        expireTime: params.config?.expireTime ?? expireTimeFromTtl(params.config?.ttl, now),
+      };
+      this.cachedContents.set(name, cachedContent);
+      return cachedContent;
+    },
+    list: async params => {
+      this.calls.push({ method: 'caches.list', params });
+      const cachedContents = [...this.cachedContents.values()];
+      return (async function* () {
+        yield* cachedContents;
+      })();
+    },
+    get: async params => {
+      this.calls.push({ method: 'caches.get', params });
+      return this.getCachedContent(params.name);
+    },
+    update: async params => {
+      this.calls.push({ method: 'caches.update', params });
+      const now = new Date();
+      const cachedContent: CachedContent = {
+        ...this.getCachedContent(params.name),
+        updateTime: now.toISOString(),
+        expireTime: params.config?.expireTime ?? expireTimeFromTtl(params.config?.ttl, now),
+      };
+      this.cachedContents.set(params.name, cachedContent);
+      return cachedContent;
+    },
+    delete: async params => {
+      this.calls.push({ method: 'caches.delete', params });
+      this.getCachedContent(params.name);
+      this.cachedContents.delete(params.name);
+      return {};
+    },
+  };
+
+  constructor(fields?: FakeGoogleGenAIClientFields) {
+    this.responses = [...(fields?.responses ?? [])];
+    this.streams = [...(fields?.streams ?? [])];
+    this.interactionResponses = [...(fields?.interactions ?? [])];
+    this.interactionStreams = [...(fields?.interactionStreams ?? [])];
+  }
+
+  private getCachedContent(name: string): CachedContent {
+    const cachedContent = this.cachedContents.get(name);
+    if (!cachedContent) {
+      throw new Error(`FakeGoogleGenAIClient: cached content "${name}" does not exist.`);
+    }
+    return cachedContent;
+  }
+}
+
+/**
+ * Computes an expiration time from a duration such as `'300s'`, defaulting to one hour like the API.
+ */
+function expireTimeFromTtl(ttl: string | undefined, now: Date): string {
+  const seconds = ttl ? parseFloat(ttl) : 3600;
+  return new Date(now.getTime() + seconds * 1000).toISOString();
+}
+
+/**
+ * Removes and returns the next scripted entry, throwing it if it is an Error.
+ */
+function takeNext<T>(queue: Array<T | Error>, method: string): T {
+  if (queue.length === 0) {
+    throw new Error(`FakeGoogleGenAIClient: no scripted response left for ${method}.`);
+  }
+  const next = queue.shift() as T | Error;
+  if (next instanceof Error) {
+    throw next;
+  }
+  return next;
+}
+
+/**
+ * Builds an SDK response instance so helper getters such as `text` behave like real responses.
+ */
+function toGenerateContentResponse(response: FakeGenerateContentResponse | Error): GenerateContentResponse {
+  if (response instanceof Error) {
+    throw response;
+  }
+  return Object.assign(new GenerateContentResponse(), response);
+}
+
+/**
+ * Replays scripted SSE events as a stream.
+ */
+async function* replayEvents(
+  events: Array<Interactions.InteractionSSEEvent | Error>,
+): AsyncGenerator<Interactions.InteractionSSEEvent> {
+  for (const event of events) {
+    if (event instanceof Error) {
+      throw event;
+    }
+    yield event;
+  }
+}
@@ -1,2 +1,8 @@
+export * from './callbacks.js';
+export * from './cassette-client.js';
 export * from './chat-models.js';
+export * from './fake-client.js';
+export * from './pricing.js';
+export * from './profiles.js';
+export * from './tools.js';
 export * from './types.js';
@@ -0,0 +1,83 @@
+import { type UsageMetadata } from '@langchain/core/messages';
+
+import { type CostEstimate, type ModelPricing } from './types.js';
+import { findModelEntry } from './utils/model-names.js';
+
+/**
+ * Paid tier prices of the Gemini Developer API in USD per million tokens, keyed by model name.
+ * Versioned names (e.g. `gemini-2.5-flash-preview-09-2025`) use the entry of their base model.
+ * Prices change over time: override them with the `pricing` constructor field when they differ from your billing.
+ */
+export const GEMINI_PRICING: Record<string, ModelPricing> = {
+  'gemini-3-pro-preview': {
+    input: 2,
+    output: 12,
+    cachedInput: 0.2,
+    longContextThreshold: 200_000,
+    longContext: { input: 4, output: 18, cachedInput: 0.4 },
+  },
+  'gemini-3-pro-image-preview': { input: 2, output: 12, imageOutput: 120 },
+  'gemini-3-flash-preview': { input: 0.5, output: 3, cachedInput: 0.05, audioInput: 1 },
+  'gemini-2.5-pro': {
+    input: 1.25,
+    output: 10,
+    cachedInput: 0.125,
+    longContextThreshold: 200_000,
+    longContext: { input: 2.5, output: 15, cachedInput: 0.25 },
+  },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5, cachedInput: 0.03, audioInput: 1 },
+  'gemini-2.5-flash-lite': { input: 0.1, output: 0.4, cachedInput: 0.01, audioInput: 0.3 },
+  'gemini-2.5-flash-image': { input: 0.3, output: 2.5, imageOutput: 30 },
+  'gemini-2.5-flash-preview-tts': { input: 0.5, output: 10 },
+  'gemini-2.5-pro-preview-tts': { input: 1, output: 20 },
+  'gemini-2.0-flash': { input: 0.1, output: 0.4, cachedInput: 0.025, audioInput: 0.7 },
+  'gemini-2.0-flash-lite': { input: 0.075, output: 0.3 },
+};
+
+/**
+ * Finds the prices of a model, falling back to the entry of its base model for versioned names.
+ */
+export function getModelPricing(
+  model: string,
+  pricing: Record<string, ModelPricing> = GEMINI_PRICING,
+): ModelPricing | undefined {
+  return findModelEntry(model, pricing);
+}
+
+/**
+ * Estimates the cost of a call from its usage. Returns undefined for models without known prices.
+ */
+export function estimateCost(
+  model: string,
+  usage: UsageMetadata,
+  pricingTable: Record<string, ModelPricing> = GEMINI_PRICING,
+): CostEstimate | undefined {
+  const modelPricing = getModelPricing(model, pricingTable);
+  if (!modelPricing) return undefined;
+
+  const { longContextThreshold, longContext, ...basePricing } = modelPricing;
+  const pricing =
+    longContext && longContextThreshold !== undefined && usage.input_tokens > longContextThreshold
+      ? { ...basePricing, ...longContext }
+      : basePricing;
+
+  const cachedTokens = usage.input_token_details?.cache_read ?? 0;
+  const audioTokens = usage.input_token_details?.audio ?? 0;
+  const otherInputTokens = Math.max(usage.input_tokens - cachedTokens - audioTokens, 0);
+  const input =
+    (otherInputTokens * pricing.input +
+      audioTokens * (pricing.audioInput ?? pricing.input) +
+      cachedTokens * (pricing.cachedInput ?? pricing.input)) /
+    1_000_000;
+
+  const reasoningTokens = usage.output_token_details?.reasoning ?? 0;
+  const imageTokens = usage.output_token_details?.image ?? 0;
+  const otherOutputTokens = Math.max(usage.output_tokens - reasoningTokens - imageTokens, 0);
+  const output =
+    (otherOutputTokens * pricing.output +
+      reasoningTokens * (pricing.thinking ?? pricing.output) +
+      imageTokens * (pricing.imageOutput ?? pricing.output)) /
+    1_000_000;
+
+  return { model, input, output, total: input + output };
+}
@@ -0,0 +1,136 @@
+import { type GeminiModelProfile } from './types.js';
+import { findModelEntry } from './utils/model-names.js';
+
+/**
+ * Profile shared by the multimodal Gemini models that accept text, images, PDFs, audio and video.
+ */
+const MULTIMODAL_INPUTS: GeminiModelProfile = {
+  imageInputs: true,
+  imageUrlInputs: true,
+  pdfInputs: true,
+  audioInputs: true,
+  videoInputs: true,
+};
+
+/**
+ * Profile shared by the models that support function calling and structured output.
+ */
+const TOOL_SUPPORT: GeminiModelProfile = {
+  toolCalling: true,
+  toolChoice: true,
+  structuredOutput: true,
+};
+
+/**
+ * Capabilities and limits of the Gemini models, keyed by model name.
+ * Versioned names (e.g. `gemini-2.5-flash-preview-09-2025`) use the profile of their base model.
+ */
+export const GEMINI_MODEL_PROFILES: Record<string, GeminiModelProfile> = {
+  'gemini-3-pro-preview': {
+    ...MULTIMODAL_INPUTS,
+    ...TOOL_SUPPORT,
+    maxInputTokens: 1_048_576,
+    maxOutputTokens: 65_536,
+    imageToolMessage: true,
+    pdfToolMessage: true,
+    reasoningOutput: true,
+    thinking: 'level',
+    interactionsApi: true,
+  },
+  'gemini-3-flash-preview': {
+    ...MULTIMODAL_INPUTS,
+    ...TOOL_SUPPORT,
+    maxInputTokens: 1_048_576,
+    maxOutputTokens: 65_536,
+    imageToolMessage: true,
+    pdfToolMessage: true,
+    reasoningOutput: true,
+    thinking: 'level',
+    interactionsApi: true,
+  },
+  'gemini-3-pro-image-preview': {
+    imageInputs: true,
+    imageUrlInputs: true,
+    maxInputTokens: 65_536,
+    maxOutputTokens: 32_768,
+    imageOutputs: true,
+    reasoningOutput: true,
+    toolCalling: false,
+    structuredOutput: false,
+    interactionsApi: false,
+  },
+  'gemini-2.5-pro': {
+    ...MULTIMODAL_INPUTS,
+    ...TOOL_SUPPORT,
+    maxInputTokens: 1_048_576,
+    maxOutputTokens: 65_536,
+    reasoningOutput: true,
+    thinking: 'budget',
+    interactionsApi: true,
+  },
+  'gemini-2.5-flash': {
+    ...MULTIMODAL_INPUTS,
+    ...TOOL_SUPPORT,
+    maxInputTokens: 1_048_576,
+    maxOutputTokens: 65_536,
+    reasoningOutput: true,
+    thinking: 'budget',
+    interactionsApi: true,
+  },
+  'gemini-2.5-flash-lite': {
+    ...MULTIMODAL_INPUTS,
+    ...TOOL_SUPPORT,
+    maxInputTokens: 1_048_576,
+    maxOutputTokens: 65_536,
+    reasoningOutput: true,
+    thinking: 'budget',
+    interactionsApi: true,
+  },
+  'gemini-2.5-flash-image': {
+    imageInputs: true,
+    imageUrlInputs: true,
+    maxInputTokens: 32_768,
+    maxOutputTokens: 32_768,
+    imageOutputs: true,
+    toolCalling: false,
+    structuredOutput: false,
+    interactionsApi: false,
+  },
+  'gemini-2.5-flash-preview-tts': {
+    maxInputTokens: 8_192,
+    maxOutputTokens: 16_384,
+    audioOutputs: true,
+    toolCalling: false,
+    structuredOutput: false,
+    interactionsApi: false,
+  },
+  'gemini-2.5-pro-preview-tts': {
+    maxInputTokens: 8_192,
+    maxOutputTokens: 16_384,
+    audioOutputs: true,
+    toolCalling: false,
+    structuredOutput: false,
+    interactionsApi: false,
+  },
+  'gemini-2.0-flash': {
+    ...MULTIMODAL_INPUTS,
+    ...TOOL_SUPPORT,
+    maxInputTokens: 1_048_576,
+    maxOutputTokens: 8_192,
+    interactionsApi: false,
+  },
+  'gemini-2.0-flash-lite': {
+    ...MULTIMODAL_INPUTS,
+    ...TOOL_SUPPORT,
+    maxInputTokens: 1_048_576,
+    maxOutputTokens: 8_192,
+    interactionsApi: false,
+  },
+};
+
+/**
+ * Returns the profile of a model, or undefined if the model is not known.
+ */
+export function getModelProfile(model: string): GeminiModelProfile | undefined {
+  return findModelEntry(model, GEMINI_MODEL_PROFILES);
+}
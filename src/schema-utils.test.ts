@@ -0,0 +1,152 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { Type } from '@google/genai';
+import { tool } from '@langchain/core/tools';
+
+import { ChatGoogleGenAI } from './chat-models.js';
+import { FakeGoogleGenAIClient } from './fake-client.js';
+import { convertJsonSchemaToGoogleSchema, type JsonSchema } from './utils/schema-utils.js';
+
+const recordSchema: JsonSchema = {
+  $schema: 'http://json-schema.org/draft-07/schema#',
+  type: 'object',
+  properties: {
+    labels: { type: 'object', additionalProperties: { type: 'string' } },
+  },
+  required: ['labels'],
+};
+
+function makeTool(schema: JsonSchema) {
+  return tool(async () => 'done', { name: 'label', description: 'Labels an item', schema });
+}
+
+describe('convertJsonSchemaToGoogleSchema', () => {
+  it('inlines local $refs from $defs', () => {
+    const schema = convertJsonSchemaToGoogleSchema({
+      type: 'object',
+      properties: {
+        home: { $ref: '#/$defs/Address', description: 'Home address' },
+        work: { $ref: '#/$defs/Address' },
+      },
+      $defs: {
+        Address: { type: 'object', properties: { city: { type: 'string' } }, required: ['city'] },
+      },
+    });
+
+    const address = {
+      type: Type.OBJECT,
+      properties: { city: { type: Type.STRING } },
+      propertyOrdering: ['city'],
+      required: ['city'],
+    };
+    assert.deepEqual(schema, {
+      type: Type.OBJECT,
+      properties: { home: { ...address, description: 'Home address' }, work: address },
+      propertyOrdering: ['home', 'work'],
+    });
+  });
+
+  it('turns a null branch of anyOf into a nullable schema', () => {
+    assert.deepEqual(convertJsonSchemaToGoogleSchema({ anyOf: [{ type: 'number', minimum: 0 }, { type: 'null' }] }), {
+      type: Type.NUMBER,
+      minimum: 0,
+      nullable: true,
+    });
+    assert.deepEqual(convertJsonSchemaToGoogleSchema({ type: ['string', 'null'] }), {
+      type: Type.STRING,
+      nullable: true,
+    });
+  });
+
+  it('rewrites const as a single-value enum', () => {
+    assert.deepEqual(convertJsonSchemaToGoogleSchema({ type: 'string', const: 'celsius' }), {
+      type: Type.STRING,
+      enum: ['celsius'],
+    });
+    assert.deepEqual(convertJsonSchemaToGoogleSchema({ const: 'celsius' }), { type: Type.STRING, enum: ['celsius'] });
+  });
+
+  it('throws for recursive $refs with their location', () => {
+    assert.throws(
+      () =>
+        convertJsonSchemaToGoogleSchema({
+          $ref: '#/$defs/Node',
+          $defs: {
+            Node: {
+              type: 'object',
+              properties: { children: { type: 'array', items: { $ref: '#/$defs/Node' } } },
+            },
+          },
+        }),
+      { message: 'Recursive "$ref" "#/$defs/Node" at #/properties/children/items cannot be inlined.' },
+    );
+  });
+
+  it('throws for records with their location', () => {
+    assert.throws(() => convertJsonSchemaToGoogleSchema(recordSchema), {
+      message: 'Schemas for "additionalProperties" (e.g. records or maps) are not supported at #/properties/labels.',
+    });
+  });
+});
+
+describe('ChatGoogleGenAI tool schemas', () => {
+  it('falls back to parametersJsonSchema for schemas Gemini Schema cannot express', async () => {
+    const client = new FakeGoogleGenAIClient({
+      responses: [{ candidates: [{ content: { role: 'model', parts: [{ text: 'Done' }] } }] }],
+    });
+    const model = new ChatGoogleGenAI({ model: 'gemini-2.5-flash', client });
+
+    await model.bindTools([makeTool(recordSchema)]).invoke('Label this');
+
+    const [call] = client.calls;
+    assert.equal(call.method, 'models.generateContent');
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { $schema, ...jsonSchema } = recordSchema;
+    assert.deepEqual((call.params as { config: { tools: unknown[] } }).config.tools, [
+      {
+        functionDeclarations: [{ name: 'label', description: 'Labels an item', parametersJsonSchema: jsonSchema }],
+      },
+    ]);
+  });
+
+  it('throws for such schemas on models without JSON Schema support', async () => {
+    const client = new FakeGoogleGenAIClient();
+    const model = new ChatGoogleGenAI({ model: 'gemini-2.0-flash', client });
+
+    await assert.rejects(model.bindTools([makeTool(recordSchema)]).invoke('Label this'), {
+      message: /cannot be expressed as a Gemini Schema and gemini-2\.0-flash does not accept JSON Schema/,
+    });
+    assert.deepEqual(client.calls, []);
+  });
+
+  it('sends JSON Schema parameters without $schema to the Interactions API', async () => {
+    const client = new FakeGoogleGenAIClient({
+      interactions: [
+        {
+          id: 'interaction-1',
+          status: 'completed',
+          outputs: [{ type: 'text', text: 'Done' }],
+        } as never,
+      ],
+    });
+    const model = new ChatGoogleGenAI({ model: 'gemini-2.5-flash', useExperimentalInteractionsApi: true, client });
+    const schema: JsonSchema = {
+      $schema: 'http://json-schema.org/draft-07/schema#',
+      type: 'object',
+      properties: { name: { type: 'string', minLength: 3 }, weight: { type: ['number', 'null'] } },
+      required: ['name', 'weight'],
+      additionalProperties: false,
+    };
+
+    await model.bindTools([makeTool(schema)]).invoke('Label this');
+
+    const [call] = client.calls;
+    assert.equal(call.method, 'interactions.create');
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { $schema, ...parameters } = schema;
+    assert.deepEqual((call.params as { tools?: unknown[] }).tools, [
+      { type: 'function', name: 'label', description: 'Labels an item', parameters },
+    ]);
+  });
+});
@@ -0,0 +1,52 @@
+import {
+  type ComputerUse,
+  Environment,
+  type FileSearch,
+  type GoogleMaps,
+  type GoogleSearch,
+  type Tool,
+} from '@google/genai';
+
+/**
+ * Grounds responses in Google Search results.
+ * Like the other helpers in this module, it returns a standard API tool definition that can be mixed with
+ * LangChain tools in `bindTools` and is converted automatically when the Interactions API is used.
+ */
+export function googleSearchTool(config: GoogleSearch = {}): Tool {
+  return { googleSearch: config };
+}
+
+/**
+ * Lets the model write and run Python code.
+ */
+export function codeExecutionTool(): Tool {
+  return { codeExecution: {} };
+}
+
+/**
+ * Lets the model read the content of URLs given in the prompt.
+ */
+export function urlContextTool(): Tool {
+  return { urlContext: {} };
+}
+
+/**
+ * Grounds responses in Google Maps data. Not supported by the Interactions API.
+ */
+export function googleMapsTool(config: GoogleMaps = {}): Tool {
+  return { googleMaps: config };
+}
+
+/**
+ * Retrieves from File Search stores, e.g. `fileSearchTool({ fileSearchStoreNames: ['fileSearchStores/my-store'] })`.
+ */
+export function fileSearchTool(config: FileSearch): Tool {
+  return { fileSearch: config };
+}
+
+/**
+ * Lets the model operate a web browser by returning UI actions as function calls.
+ */
+export function computerUseTool(config: Omit<ComputerUse, 'environment'> = {}): Tool {
+  return { computerUse: { environment: Environment.ENVIRONMENT_BROWSER, ...config } };
+}
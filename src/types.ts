@@ -1,17 +1,87 @@
 import {
+  type CachedContent,
+  type GoogleGenAI,
   type GoogleGenAIOptions,
   type HttpOptions,
+  type ImageConfig,
   type Interactions,
+  type Modality,
   type SafetySetting,
   type Schema,
+  type SpeechConfig,
   type ThinkingConfig,
+  type Tool,
   type ToolConfig,
 } from '@google/genai';
 import {
+  type BaseChatModel,
   type BaseChatModelCallOptions,
   type BaseChatModelParams,
   type BindToolsInput,
 } from '@langchain/core/language_models/chat_models';
+import { type ModelProfile } from '@langchain/core/language_models/profile';
+import { type AIMessage, type ContentBlock } from '@langchain/core/messages';
+
+type InteractionsResource = GoogleGenAI['interactions'];
+
+type CachesResource = GoogleGenAI['caches'];
+
+/**
+ * The subset of the Google GenAI client used by ChatGoogleGenAI.
+ * A `GoogleGenAI` instance satisfies it, as does `FakeGoogleGenAIClient` for offline tests.
+ */
+export interface GoogleGenAIClient {
+  models: Pick<GoogleGenAI['models'], 'generateContent' | 'generateContentStream'> &
+    Partial<Pick<GoogleGenAI['models'], 'countTokens'>>;
+  interactions: {
+    create(
+      ...args: Parameters<InteractionsResource['create']>
+    ): Promise<Interactions.Interaction | AsyncIterable<Interactions.InteractionSSEEvent>>;
+    get(
+      ...args: Parameters<InteractionsResource['get']>
+    ): Promise<Interactions.Interaction | AsyncIterable<Interactions.InteractionSSEEvent>>;
+    cancel(...args: Parameters<InteractionsResource['cancel']>): Promise<Interactions.Interaction>;
+    delete(...args: Parameters<InteractionsResource['delete']>): Promise<unknown>;
+  };
+  /**
+   * Only needed for automatic file uploads.
+   */
+  files?: Pick<GoogleGenAI['files'], 'upload' | 'get'>;
+  /**
+   * Only needed for context caching.
+   */
+  caches?: Pick<CachesResource, 'create' | 'get' | 'update' | 'delete'> & {
+    list(...args: Parameters<CachesResource['list']>): Promise<AsyncIterable<CachedContent>>;
+  };
+  /**
+   * Whether the client targets Vertex AI, whose token counting also accepts the system instruction and tools.
+   */
+  readonly vertexai?: boolean;
+}
+
+/**
+ * Options for uploading media through the Files API instead of sending it inline.
+ */
+export interface FileUploadOptions {
+  /**
+   * Size in bytes above which base64 inline data is uploaded.
+   * Local paths and binary data (`Buffer`, `Blob`) are always uploaded.
+   * Defaults to 10 MiB.
+   */
+  inlineDataThreshold?: number;
+
+  /**
+   * Delay between checks while an uploaded file is being processed, in milliseconds.
+   * Defaults to 2000.
+   */
+  pollInterval?: number;
+
+  /**
+   * Maximum time to wait for an uploaded file to become active, in milliseconds.
+   * Defaults to 10 minutes.
+   */
+  timeout?: number;
+}
 
 /**
  * Input parameters for the ChatGoogleGenAI class.
@@ -39,6 +109,12 @@ export interface ChatGoogleGenAIInput extends BaseChatModelParams {
    */
   clientOptions?: GoogleGenAIOptions;
 
+  /**
+   * A pre-configured client to use instead of constructing one.
+   * When provided, no API key is required.
+   */
+  client?: GoogleGenAIClient;
+
   /**
    * Default temperature for the model.
    */
@@ -74,6 +150,36 @@ export interface ChatGoogleGenAIInput extends BaseChatModelParams {
    */
   thinkingConfig?: ThinkingConfig;
 
+  /**
+   * The modalities the model should respond with (e.g. [Modality.TEXT, Modality.IMAGE] for image generation models).
+   */
+  responseModalities?: Modality[];
+
+  /**
+   * Image generation config, such as aspect ratio and size (Standard API).
+   */
+  imageConfig?: ImageConfig;
+
+  /**
+   * Speech generation config for TTS models: voice, language or multi-speaker setup.
+   * Use together with `responseModalities: [Modality.AUDIO]`.
+   */
+  speechConfig?: SpeechConfig;
+
+  /**
+   * Uploads content blocks that point at local files (`path` or `file://` URLs), carry binary data,
+   * or carry inline data above a size threshold through the Files API, and references them by URI.
+   * Pass `true` for the default options.
+   */
+  autoUploadFiles?: boolean | FileUploadOptions;
+
+  /**
+   * Whether to infer the MIME type of inline and binary media without one from its leading bytes
+   * (PNG, JPEG, GIF, WebP, PDF, WAV, MP3, ...). When disabled, such blocks must set `mimeType`.
+   * Defaults to false.
+   */
+  sniffMimeTypes?: boolean;
+
   /**
    * Whether to force the use of the Interactions API even for standard models.
    */
@@ -127,6 +233,30 @@ export interface ChatGoogleGenAIInput extends BaseChatModelParams {
    * Note: store=false is incompatible with background=true and prevents using previousInteractionId.
    */
   store?: boolean;
+
+  /**
+   * How many times an interrupted Interactions API stream is reconnected and resumed
+   * from the last received event before the error is surfaced.
+   * Requires the interaction to be stored. Defaults to 3.
+   */
+  maxStreamRetries?: number;
+
+  /**
+   * Prices used to estimate the cost of each call, keyed by model or agent name.
+   * Entries are merged over the built-in `GEMINI_PRICING` table, e.g. to add an agent or apply negotiated rates.
+   */
+  pricing?: Record<string, ModelPricing>;
+
+  /**
+   * Keeps long conversations within the model's input limit by trimming or summarizing their oldest turns
+   * before each call. Pass `true` to trim to the model's limit, or options. Disabled by default.
+   */
+  contextManagement?: boolean | ContextManagementOptions;
+
+  /**
+   * Capabilities and limits merged over the built-in profile of the model, e.g. for tuned or newer models.
+   */
+  profile?: GeminiModelProfile;
 }
 
 /**
@@ -135,14 +265,16 @@ export interface ChatGoogleGenAIInput extends BaseChatModelParams {
  */
 export interface ChatGoogleGenAICallOptions extends BaseChatModelCallOptions {
   /**
-   * Tools to bind to the model. Can be LangChain tools or Google built-in tool definitions.
+   * Tools to bind to the model. Can be LangChain tools or Google built-in tool definitions
+   * in either the standard (e.g. `googleSearchTool()`) or the Interactions API format.
    */
-  tools?: (Interactions.Tool | BindToolsInput)[];
+  tools?: (Tool | Interactions.Tool | BindToolsInput)[];
 
   /**
-   * Tool choice configuration.
+   * Tool choice configuration. Either a mode (`'auto'`, `'any'`, `'required'`, `'none'`, `'validated'`),
+   * the name of a tool to force, `{ type: 'function', name }`, or a standard or Interactions API tool config.
    */
-  tool_choice?: Interactions.ToolChoice | ToolConfig;
+  tool_choice?: string | { type: 'function'; name: string } | Interactions.ToolChoice | ToolConfig;
 
   /**
    * The ID of the previous interaction to continue a stateful conversation (Interactions API).
@@ -155,6 +287,16 @@ export interface ChatGoogleGenAICallOptions extends BaseChatModelCallOptions {
    */
   background?: boolean;
 
+  /**
+   * The modalities the model should respond with. Overrides the constructor value.
+   */
+  responseModalities?: Modality[];
+
+  /**
+   * Speech generation config for TTS models. Overrides the constructor value.
+   */
+  speechConfig?: SpeechConfig;
+
   /**
    * Response MIME type (Standard API).
    */
@@ -165,8 +307,303 @@ export interface ChatGoogleGenAICallOptions extends BaseChatModelCallOptions {
    */
   responseSchema?: Schema;
 
+  /**
+   * Response schema as JSON Schema, for schemas that cannot be expressed as a `Schema`.
+   * Used by the Interactions API and by the standard API when no `responseSchema` is set.
+   */
+  responseJsonSchema?: Record<string, unknown>;
+
   /**
    * Tool configuration (Standard API).
    */
   toolConfig?: ToolConfig;
+
+  /**
+   * Name of a cached content to use as the prefix of the prompt (Standard API),
+   * e.g. the `name` returned by `createCachedContent`.
+   * System messages and tools must be part of the cache: calls that also send them are rejected.
+   */
+  cachedContent?: string;
+}
+
+/**
+ * Content block for code generated by the model with the code execution tool.
+ */
+export interface ExecutableCodeContentBlock extends ContentBlock {
+  type: 'executable_code';
+  code: string;
+  /**
+   * Lowercase language name, e.g. "python". Python is assumed when missing.
+   */
+  language?: string;
+  /**
+   * Call ID linking the code to its result (Interactions API).
+   */
+  id?: string;
+}
+
+/**
+ * Content block for the result of running model generated code.
+ */
+export interface CodeExecutionResultContentBlock extends ContentBlock {
+  type: 'code_execution_result';
+  output: string;
+  /**
+   * Outcome of the execution, e.g. "OUTCOME_OK" or "OUTCOME_FAILED".
+   */
+  outcome?: string;
+  /**
+   * ID of the executable code block this result belongs to (Interactions API).
+   */
+  call_id?: string;
+  /**
+   * Opaque signature that must be sent back with the result (Interactions API).
+   */
+  signature?: string;
+}
+
+/**
+ * Snapshot of a background interaction reported while polling.
+ */
+export interface InteractionProgress {
+  /**
+   * The current status of the interaction.
+   */
+  status: Interactions.Interaction['status'];
+
+  /**
+   * The raw interaction returned by the API.
+   */
+  interaction: Interactions.Interaction;
+
+  /**
+   * The interaction converted to a message, including any intermediate outputs.
+   */
+  message: AIMessage;
+
+  /**
+   * The 1-based number of the poll that produced this snapshot.
+   */
+  attempt: number;
+}
+
+/**
+ * Options for polling a background interaction until it reaches a terminal status.
+ */
+export interface WaitForInteractionOptions {
+  /**
+   * Initial delay between polls, in milliseconds.
+   * Defaults to 5000.
+   */
+  pollInterval?: number;
+
+  /**
+   * Multiplier applied to the delay after each poll.
+   * Defaults to 1 (fixed interval).
+   */
+  backoff?: number;
+
+  /**
+   * Upper bound for the delay between polls when using backoff, in milliseconds.
+   * Defaults to 60000.
+   */
+  maxPollInterval?: number;
+
+  /**
+   * Maximum total time to wait, in milliseconds. No limit if omitted.
+   */
+  timeout?: number;
+
+  /**
+   * Signal to stop polling early.
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Called with every snapshot, including the final one.
+   */
+  onProgress?: (progress: InteractionProgress) => void | Promise<void>;
+}
+
+/**
+ * Options for keeping conversations within the input limit of the model.
+ */
+export interface ContextManagementOptions {
+  /**
+   * What happens to the turns that do not fit: `'trim'` drops them, `'summarize'` replaces them
+   * with a summary added to the system instruction.
+   * Defaults to `'trim'`.
+   */
+  strategy?: 'trim' | 'summarize';
+
+  /**
+   * Token budget of the prompt, including the system instruction and tools.
+   * Defaults to the input limit of the model; required for agents and unknown models.
+   */
+  maxInputTokens?: number;
+
+  /**
+   * Counts tokens with the `countTokens` API instead of a local estimate, at the cost of an extra request per call.
+   * Defaults to false.
+   */
+  exactTokenCount?: boolean;
+
+  /**
+   * Model that writes the summaries. Defaults to this model; required for agents.
+   */
+  summaryModel?: BaseChatModel;
+}
+
+/**
+ * Options for `countMessagesTokens`.
+ */
+export interface CountTokensOptions {
+  /**
+   * Tools to count along with the messages, in any format accepted by `bindTools`.
+   */
+  tools?: ChatGoogleGenAICallOptions['tools'];
+
+  /**
+   * Estimates the count locally instead of calling the API.
+   */
+  offline?: boolean;
+
+  /**
+   * Signal to abort the request.
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Options for creating a cached content with `createCachedContent`.
+ */
+export interface CachedContentOptions {
+  /**
+   * Time to live of the cache, e.g. `'3600s'`. Defaults to one hour on the server.
+   */
+  ttl?: string;
+
+  /**
+   * Absolute expiration time as an RFC 3339 timestamp. Mutually exclusive with `ttl`.
+   */
+  expireTime?: string;
+
+  /**
+   * Human readable name of the cache.
+   */
+  displayName?: string;
+
+  /**
+   * Tools to cache along with the messages, in any format accepted by `bindTools`.
+   */
+  tools?: ChatGoogleGenAICallOptions['tools'];
+
+  /**
+   * Tool configuration to cache along with the tools.
+   */
+  tool_choice?: ChatGoogleGenAICallOptions['tool_choice'];
+}
+
+/**
+ * New expiration for `refreshCachedContent`, as either a `ttl` or an `expireTime`.
+ */
+export type CachedContentExpiration = Pick<CachedContentOptions, 'ttl' | 'expireTime'>;
+
+/**
+ * Prices of a model in USD per million tokens.
+ */
+export interface ModelPricing {
+  /**
+   * Text, image and video input.
+   */
+  input: number;
+
+  /**
+   * Output, including thinking unless `thinking` is set.
+   */
+  output: number;
+
+  /**
+   * Thinking (reasoning) output. Defaults to `output`.
+   */
+  thinking?: number;
+
+  /**
+   * Input served from a context cache. Defaults to `input`.
+   */
+  cachedInput?: number;
+
+  /**
+   * Audio input. Defaults to `input`.
+   */
+  audioInput?: number;
+
+  /**
+   * Image output, e.g. for image generation models. Defaults to `output`.
+   */
+  imageOutput?: number;
+
+  /**
+   * Number of input tokens above which the `longContext` prices apply to the whole call.
+   */
+  longContextThreshold?: number;
+
+  /**
+   * Prices that replace the base ones for prompts longer than `longContextThreshold`.
+   */
+  longContext?: Partial<Omit<ModelPricing, 'longContextThreshold' | 'longContext'>>;
+}
+
+/**
+ * Estimated cost of a call in USD, attached as `response_metadata.cost`.
+ */
+export interface CostEstimate {
+  /**
+   * The model or agent whose prices were used.
+   */
+  model: string;
+
+  /**
+   * Cost of the input tokens, including cached and tool-use prompt tokens.
+   */
+  input: number;
+
+  /**
+   * Cost of the output tokens, including thinking tokens.
+   */
+  output: number;
+
+  total: number;
+}
+
+/**
+ * Cost accumulated by `CostTrackingCallbackHandler` for one model or agent.
+ */
+export interface CostSummary {
+  /**
+   * Number of calls with a cost estimate.
+   */
+  calls: number;
+
+  input: number;
+
+  output: number;
+
+  total: number;
+}
+
+/**
+ * Capabilities and limits of a Gemini model, exposed as `model.profile`.
+ */
+export interface GeminiModelProfile extends ModelProfile {
+  /**
+   * How thinking is configured: with `thinkingLevel` (Gemini 3) or `thinkingBudget` (Gemini 2.5).
+   * Undefined for models whose thinking cannot be configured.
+   */
+  thinking?: 'level' | 'budget';
+
+  /**
+   * Whether the model can be used through the Interactions API.
+   */
+  interactionsApi?: boolean;
 }
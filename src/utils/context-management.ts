@@ -0,0 +1,199 @@
+import { AIMessage, type BaseMessage, HumanMessage, SystemMessage, ToolMessage } from '@langchain/core/messages';
+
+import { type ContextManagementOptions } from '../types.js';
+import { convertMessagesToGooglePayload } from './message-inputs.js';
+import { estimateTokenCount } from './token-counting.js';
+
+const SUMMARY_PROMPT =
+  'Summarize the following conversation between a user and an AI assistant. Keep the facts, decisions, ' +
+  'tool results and open questions needed to continue it, and leave out small talk. ' +
+  'Reply with the summary only.';
+
+/**
+ * Splits a conversation into its system messages, its other messages and the units that may be dropped, oldest first.
+ * Earlier exchanges, each starting with a human message, are dropped whole. With `dropCurrentTurnSteps`, so are the
+ * earlier steps of the latest exchange, each a model turn with the tool messages answering its function calls.
+ * Dropping a unit never separates a function call from its response.
+ * The first human message, which usually states the task, the message starting the latest exchange and its latest
+ * step are never dropped.
+ */
+function splitConversation(
+  messages: BaseMessage[],
+  dropCurrentTurnSteps: boolean,
+): {
+  systemMessages: BaseMessage[];
+  chatMessages: BaseMessage[];
+  units: BaseMessage[][];
+} {
+  const systemMessages = messages.filter(message => SystemMessage.isInstance(message));
+  const chatMessages = messages.filter(message => !SystemMessage.isInstance(message));
+
+  const exchanges: BaseMessage[][] = [];
+  for (const message of chatMessages) {
+    if (HumanMessage.isInstance(message) || exchanges.length === 0) {
+      exchanges.push([message]);
+    } else {
+      exchanges[exchanges.length - 1].push(message);
+    }
+  }
+
+  const units: BaseMessage[][] = [];
+  for (const [index, exchange] of exchanges.slice(0, -1).entries()) {
+    const droppable = index === 0 && HumanMessage.isInstance(exchange[0]) ? exchange.slice(1) : exchange;
+    if (droppable.length > 0) {
+      units.push(droppable);
+    }
+  }
+
+  if (dropCurrentTurnSteps && exchanges.length > 0) {
+    const steps: BaseMessage[][] = [];
+    for (const message of exchanges[exchanges.length - 1].slice(1)) {
+      if (AIMessage.isInstance(message) || steps.length === 0) {
+        steps.push([message]);
+      } else {
+        steps[steps.length - 1].push(message);
+      }
+    }
+    units.push(...steps.slice(0, -1));
+  }
+
+  return { systemMessages, chatMessages, units };
+}
+
+/**
+ * Renders messages as plain text for the summarizer, which avoids replaying function calls and their signatures.
+ */
+function formatTranscript(messages: BaseMessage[]): string {
+  return messages
+    .map(message => {
+      if (ToolMessage.isInstance(message)) {
+        return `Tool result (${message.name ?? message.tool_call_id}): ${message.text}`;
+      }
+      if (AIMessage.isInstance(message)) {
+        const toolCalls = (message.tool_calls ?? []).map(
+          toolCall => `Tool call: ${toolCall.name}(${JSON.stringify(toolCall.args)})`,
+        );
+        return ['Assistant: ' + message.text, ...toolCalls].join('\n');
+      }
+      return `User: ${message.text}`;
+    })
+    .join('\n\n');
+}
+
+/**
+ * Keeps conversations within a token budget by dropping, or summarizing, their oldest turns.
+ * The system messages, the first human message and the current turn are always kept: the current turn's
+ * function calls must be sent back with their thought signatures to Gemini 3 models.
+ * Only for models known to predate thinking levels may the earlier steps of the current turn be dropped too.
+ */
+export class ContextManager {
+  private options: ContextManagementOptions;
+
+  private maxInputTokens: number;
+
+  private dropCurrentTurnSteps: boolean;
+
+  private summarize: (prompt: string, signal?: AbortSignal) => Promise<string>;
+
+  /**
+   * The last summary, reused as long as the same turns are dropped.
+   */
+  private lastSummary?: { transcript: string; summary: string };
+
+  /**
+   * @param options.dropCurrentTurnSteps Whether the earlier steps of the current turn may be dropped,
+   * for models that do not require the thought signatures of every step.
+   * @param summarize Writes a summary with this model, used when no `summaryModel` is given.
+   */
+  constructor(
+    options: ContextManagementOptions & { maxInputTokens: number; dropCurrentTurnSteps: boolean },
+    summarize: (prompt: string, signal?: AbortSignal) => Promise<string>,
+  ) {
+    this.options = options;
+    this.maxInputTokens = options.maxInputTokens;
+    this.dropCurrentTurnSteps = options.dropCurrentTurnSteps;
+    this.summarize = summarize;
+  }
+
+  /**
+   * Returns the messages to send, unchanged if they fit the budget.
+   * Throws if they do not fit even with every turn that may be dropped removed.
+   * @param countTokens Counts the tokens of the whole prompt, including the system instruction and tools,
+   * locally or with the API.
+   */
+  async fitMessages(
+    messages: BaseMessage[],
+    countTokens: (messages: BaseMessage[], offline: boolean) => Promise<number>,
+    signal?: AbortSignal,
+  ): Promise<BaseMessage[]> {
+    const offline = !this.options.exactTokenCount;
+    let tokens = await countTokens(messages, offline);
+    if (tokens <= this.maxInputTokens) {
+      return messages;
+    }
+
+    const { systemMessages, chatMessages, units } = splitConversation(messages, this.dropCurrentTurnSteps);
+
+    // Units are estimated separately, which is close enough to decide how many to drop.
+    // The result is counted again, since a summary adds tokens and estimates are approximate.
+    let fittedMessages = messages;
+    let dropCount = 0;
+    while (tokens > this.maxInputTokens) {
+      if (dropCount === units.length) {
+        throw new Error(
+          `The prompt has ${offline ? 'about ' : ''}${tokens} tokens, more than the ${this.maxInputTokens} ` +
+            'allowed by "maxInputTokens", even without the turns that can be dropped. ' +
+            'Shorten the system messages, the first message or the current turn, or raise "maxInputTokens".',
+        );
+      }
+      // The MIME type does not change the estimate, so sniff it rather than fail on inline data without one
+      const { contents } = convertMessagesToGooglePayload(units[dropCount], { sniffMimeTypes: true });
+      tokens -= estimateTokenCount(contents);
+      dropCount++;
+      if (tokens <= this.maxInputTokens || dropCount === units.length) {
+        const droppedMessages = units.slice(0, dropCount).flat();
+        fittedMessages = await this.dropMessages(systemMessages, chatMessages, droppedMessages, signal);
+        tokens = await countTokens(fittedMessages, offline);
+      }
+    }
+    return fittedMessages;
+  }
+
+  /**
+   * Removes the dropped messages, replacing them with a summary when the strategy is `'summarize'`.
+   */
+  private async dropMessages(
+    systemMessages: BaseMessage[],
+    chatMessages: BaseMessage[],
+    droppedMessages: BaseMessage[],
+    signal?: AbortSignal,
+  ): Promise<BaseMessage[]> {
+    const dropped = new Set(droppedMessages);
+    const keptMessages = chatMessages.filter(message => !dropped.has(message));
+    if (this.options.strategy !== 'summarize') {
+      return [...systemMessages, ...keptMessages];
+    }
+
+    const summary = await this.summarizeMessages(droppedMessages, signal);
+    return [
+      ...systemMessages,
+      new SystemMessage(`Summary of the earlier conversation:\n${summary}`),
+      ...keptMessages,
+    ];
+  }
+
+  private async summarizeMessages(messages: BaseMessage[], signal?: AbortSignal): Promise<string> {
+    const transcript = formatTranscript(messages);
+    if (this.lastSummary?.transcript === transcript) {
+      return this.lastSummary.summary;
+    }
+
+    const prompt = `${SUMMARY_PROMPT}\n\n${transcript}`;
+    const summary = this.options.summaryModel
+      ? (await this.options.summaryModel.invoke([new HumanMessage(prompt)], { signal })).text
+      : await this.summarize(prompt, signal);
+
+    this.lastSummary = { transcript, summary };
+    return summary;
+  }
+}
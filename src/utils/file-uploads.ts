@@ -0,0 +1,222 @@
+import { createHash } from 'node:crypto';
+import { stat } from 'node:fs/promises';
+import { resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+import { type File as GoogleFile, FileState } from '@google/genai';
+import { type BaseMessage, type MessageContent } from '@langchain/core/messages';
+
+import { type FileUploadOptions, type GoogleGenAIClient } from '../types.js';
+import { sleep } from './async-utils.js';
+import { parseBase64DataUrl } from './media-blocks.js';
+import { getMimeTypeFromUri, sniffMimeType } from './mime-types.js';
+
+/**
+ * Block types whose payload can be uploaded.
+ */
+const UPLOADABLE_BLOCK_TYPES = ['image_url', 'image', 'audio', 'video', 'file', 'text-plain'];
+
+/**
+ * Content to upload, either a local path or in-memory bytes.
+ */
+type UploadSource = { path: string; mimeType?: string } | { blob: Blob; mimeType?: string };
+
+/**
+ * Returns the URL of a block, reading `image_url` blocks in both their string and object forms.
+ */
+function getBlockUrl(block: Record<string, unknown>): string | undefined {
+  const url = block['type'] === 'image_url' ? block['image_url'] : block['url'];
+  if (url && typeof url === 'object' && 'url' in url) {
+    return (url as { url: string }).url;
+  }
+  return typeof url === 'string' ? url : undefined;
+}
+
+/**
+ * Uploads media referenced by content blocks through the Files API and rewrites the blocks
+ * to reference the uploaded files. Uploads are cached in memory, so the same file is sent once
+ * for as long as it has not expired.
+ */
+export class FileUploader {
+  private client: GoogleGenAIClient;
+
+  private options: FileUploadOptions;
+
+  private sniffMimeTypes: boolean;
+
+  private uploads = new Map<string, Promise<GoogleFile>>();
+
+  /**
+   * @param sniffMimeTypes Whether to infer the MIME type of binary and base64 content from its leading bytes.
+   */
+  constructor(client: GoogleGenAIClient, options: FileUploadOptions, sniffMimeTypes = false) {
+    this.client = client;
+    this.options = options;
+    this.sniffMimeTypes = sniffMimeTypes;
+  }
+
+  private get files(): NonNullable<GoogleGenAIClient['files']> {
+    if (!this.client.files) {
+      throw new Error('Automatic file uploads require a client that supports the Files API.');
+    }
+    return this.client.files;
+  }
+
+  /**
+   * Returns the messages with local paths, binary data and large inline media replaced by Files API references.
+   * Messages without such content are returned as-is.
+   */
+  async uploadMessageFiles(messages: BaseMessage[], signal?: AbortSignal): Promise<BaseMessage[]> {
+    return Promise.all(
+      messages.map(async message => {
+        if (typeof message.content === 'string') {
+          return message;
+        }
+        const content = await this.uploadContentFiles(message.content, signal);
+        if (content === message.content) {
+          return message;
+        }
+        // Shallow copy that keeps the message class, so type checks still apply
+        return Object.assign(Object.create(Object.getPrototypeOf(message)), message, { content }) as BaseMessage;
+      }),
+    );
+  }
+
+  private async uploadContentFiles(content: MessageContent, signal?: AbortSignal): Promise<MessageContent> {
+    if (typeof content === 'string') {
+      return content;
+    }
+
+    let changed = false;
+    const blocks = await Promise.all(
+      content.map(async block => {
+        const source = this.getUploadSource(block as Record<string, unknown>);
+        if (!source) {
+          return block;
+        }
+        const file = await this.upload(source, signal);
+        changed = true;
+        return {
+          type: block.type === 'image_url' ? 'image' : block.type,
+          fileId: file.uri,
+          mimeType: file.mimeType ?? source.mimeType,
+        };
+      }),
+    );
+    return changed ? (blocks as MessageContent) : content;
+  }
+
+  /**
+   * Determines whether a content block should be uploaded and what to upload.
+   */
+  private getUploadSource(block: Record<string, unknown>): UploadSource | undefined {
+    const type = block['type'] as string;
+    if (!UPLOADABLE_BLOCK_TYPES.includes(type)) {
+      return undefined;
+    }
+
+    const mimeType = (block['mimeType'] ?? block['mime_type']) as string | undefined;
+    const threshold = this.options.inlineDataThreshold ?? 10 * 1024 * 1024;
+
+    if (typeof block['path'] === 'string') {
+      return { path: block['path'], mimeType: mimeType ?? getMimeTypeFromUri(block['path']) };
+    }
+
+    const url = getBlockUrl(block);
+
+    if (typeof url === 'string' && url.startsWith('file://')) {
+      const path = fileURLToPath(url);
+      return { path, mimeType: mimeType ?? getMimeTypeFromUri(path) };
+    }
+
+    const data = block['data'];
+    if (data instanceof Blob) {
+      return { blob: data, mimeType: mimeType ?? (data.type || undefined) };
+    }
+    if (data instanceof Uint8Array) {
+      const base64 = Buffer.from(data.subarray(0, 16)).toString('base64');
+      return { blob: new Blob([Buffer.from(data)]), mimeType: mimeType ?? this.sniff(base64) };
+    }
+
+    let base64: { mimeType?: string; data: string } | undefined;
+    if (typeof data === 'string') {
+      base64 = { mimeType, data };
+    } else if (typeof url === 'string' && url.startsWith('data:')) {
+      base64 = parseBase64DataUrl(url);
+    }
+    // Base64 encodes 3 bytes in 4 characters
+    if (base64 && (base64.data.length * 3) / 4 > threshold) {
+      return {
+        blob: new Blob([Buffer.from(base64.data, 'base64')]),
+        mimeType: base64.mimeType ?? this.sniff(base64.data),
+      };
+    }
+
+    return undefined;
+  }
+
+  private sniff(base64: string): string | undefined {
+    return this.sniffMimeTypes ? sniffMimeType(base64) : undefined;
+  }
+
+  private async upload(source: UploadSource, signal?: AbortSignal): Promise<GoogleFile> {
+    const key = await this.getCacheKey(source);
+    const cached = this.uploads.get(key);
+    if (cached) {
+      const file = await cached;
+      // Re-upload files that are about to expire
+      if (!file.expirationTime || Date.parse(file.expirationTime) - Date.now() > 60000) {
+        return file;
+      }
+    }
+
+    const upload = this.uploadAndWait(source, signal);
+    this.uploads.set(key, upload);
+    try {
+      return await upload;
+    } catch (error) {
+      this.uploads.delete(key);
+      throw error;
+    }
+  }
+
+  private async uploadAndWait(source: UploadSource, signal?: AbortSignal): Promise<GoogleFile> {
+    if ('blob' in source && !source.mimeType) {
+      throw new Error(
+        'Could not determine the MIME type of binary content to upload. Set "mimeType" on the content block.',
+      );
+    }
+
+    let file = await this.files.upload({
+      file: 'path' in source ? source.path : source.blob,
+      config: { mimeType: source.mimeType, abortSignal: signal },
+    });
+
+    const deadline = Date.now() + (this.options.timeout ?? 10 * 60 * 1000);
+    while (file.state === FileState.PROCESSING) {
+      if (Date.now() > deadline) {
+        throw new Error(`Timed out waiting for uploaded file "${file.name}" to become active.`);
+      }
+      await sleep(this.options.pollInterval ?? 2000, signal);
+      file = await this.files.get({ name: file.name as string });
+    }
+
+    if (file.state === FileState.FAILED) {
+      throw new Error(`Processing of uploaded file "${file.name}" failed: ${file.error?.message ?? 'unknown error'}`);
+    }
+    if (!file.uri) {
+      throw new Error(`Uploaded file "${file.name}" has no URI.`);
+    }
+    return file;
+  }
+
+  private async getCacheKey(source: UploadSource): Promise<string> {
+    if ('path' in source) {
+      const path = resolve(source.path);
+      const stats = await stat(path);
+      return `path:${path}:${stats.size}:${stats.mtimeMs}`;
+    }
+    const bytes = new Uint8Array(await source.blob.arrayBuffer());
+    return `sha256:${createHash('sha256').update(bytes).digest('hex')}`;
+  }
+}
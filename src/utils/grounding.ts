@@ -0,0 +1,97 @@
+import { type GroundingChunk, type GroundingMetadata, type Interactions, type Part } from '@google/genai';
+import { type ContentBlock } from '@langchain/core/messages';
+
+/**
+ * Converts a byte offset into the UTF-8 encoding of a string to a character offset.
+ * The API reports grounding spans in bytes, while LangChain citations index characters.
+ */
+function byteOffsetToCharOffset(text: string, byteOffset: number): number {
+  return Buffer.from(text, 'utf8').subarray(0, byteOffset).toString('utf8').length;
+}
+
+/**
+ * Returns the source of a grounding chunk, whichever grounding tool produced it.
+ */
+function getGroundingSource(
+  chunk: GroundingChunk,
+): Pick<ContentBlock.Citation, 'source' | 'url' | 'title'> | undefined {
+  if (chunk.web) {
+    return { source: 'google_search', url: chunk.web.uri, title: chunk.web.title };
+  }
+  if (chunk.retrievedContext) {
+    return { source: 'retrieval', url: chunk.retrievedContext.uri, title: chunk.retrievedContext.title };
+  }
+  if (chunk.maps) {
+    return { source: 'google_maps', url: chunk.maps.uri, title: chunk.maps.title };
+  }
+  return undefined;
+}
+
+/**
+ * Converts the grounding supports of a candidate into citations, grouped by the index of the part they annotate.
+ * Spans are character offsets into the text of that part.
+ */
+export function convertGroundingMetadataToCitations(
+  metadata: GroundingMetadata,
+  parts: Part[],
+): Map<number, ContentBlock.Citation[]> {
+  const citations = new Map<number, ContentBlock.Citation[]>();
+
+  for (const support of metadata.groundingSupports ?? []) {
+    const segment = support.segment;
+    const partIndex = segment?.partIndex ?? 0;
+    const text = parts[partIndex]?.text;
+    if (!segment || text === undefined) {
+      continue;
+    }
+
+    const startIndex = byteOffsetToCharOffset(text, segment.startIndex ?? 0);
+    const endIndex = byteOffsetToCharOffset(text, segment.endIndex ?? Buffer.byteLength(text));
+
+    for (const chunkIndex of support.groundingChunkIndices ?? []) {
+      const chunk = metadata.groundingChunks?.[chunkIndex];
+      const source = chunk ? getGroundingSource(chunk) : undefined;
+      if (!source) {
+        continue;
+      }
+      const partCitations = citations.get(partIndex) ?? [];
+      partCitations.push({ type: 'citation', ...source, startIndex, endIndex, citedText: segment.text });
+      citations.set(partIndex, partCitations);
+    }
+  }
+
+  return citations;
+}
+
+/**
+ * Converts the annotations of an Interactions text output into citations.
+ * Titles are looked up in the Google Search results of the same interaction, since annotations only carry the URL.
+ */
+export function convertInteractionAnnotationsToCitations(
+  text: string,
+  annotations: Interactions.Annotation[],
+  searchResults: Interactions.GoogleSearchResult[],
+): ContentBlock.Citation[] {
+  return annotations.map(annotation => {
+    const startIndex = byteOffsetToCharOffset(text, annotation.start_index ?? 0);
+    const endIndex = byteOffsetToCharOffset(text, annotation.end_index ?? Buffer.byteLength(text));
+    const citation: ContentBlock.Citation = {
+      type: 'citation',
+      startIndex,
+      endIndex,
+      citedText: text.slice(startIndex, endIndex),
+    };
+
+    const searchResult = searchResults.find(result => result.url === annotation.source);
+    if (searchResult) {
+      citation.source = 'google_search';
+      citation.url = searchResult.url;
+      citation.title = searchResult.title;
+    } else if (annotation.source && /^https?:\/\//.test(annotation.source)) {
+      citation.url = annotation.source;
+    } else {
+      citation.title = annotation.source;
+    }
+    return citation;
+  });
+}
@@ -11,12 +11,142 @@ import {
   UsageMetadata,
 } from '@langchain/core/messages';
 import { ToolCall } from '@langchain/core/messages/tool';
-import { ChatGeneration } from '@langchain/core/outputs';
+import { ChatGeneration, ChatGenerationChunk } from '@langchain/core/outputs';
+
+import { type CodeExecutionResultContentBlock, type ExecutableCodeContentBlock } from '../types.js';
+import { convertInteractionAnnotationsToCitations } from './grounding.js';
+import {
+  createAudioContentBlock,
+  type MediaParsingOptions,
+  type MediaSource,
+  parseMediaBlock,
+  resolveMimeType,
+} from './media-blocks.js';
+import { convertInteractionUsage } from './usage-metadata.js';
+
+/**
+ * Interaction statuses after which the interaction will not progress on its own.
+ */
+const TERMINAL_INTERACTION_STATUSES: ReadonlyArray<Interactions.Interaction['status']> = [
+  'completed',
+  'failed',
+  'cancelled',
+  'requires_action',
+];
+
+/**
+ * Checks whether an interaction has stopped running and needs no further polling.
+ */
+export function isTerminalInteractionStatus(status: Interactions.Interaction['status']): boolean {
+  return TERMINAL_INTERACTION_STATUSES.includes(status);
+}
+
+/**
+ * Extracts the interaction ID carried by an SSE event, if any.
+ */
+export function getInteractionIdFromEvent(event: Interactions.InteractionSSEEvent): string | undefined {
+  if (event.event_type === 'interaction.start' || event.event_type === 'interaction.complete') {
+    return event.interaction?.id;
+  }
+  if (event.event_type === 'interaction.status_update') {
+    return event.interaction_id;
+  }
+  return undefined;
+}
+
+/**
+ * Media content types that can be sent as part of a turn.
+ */
+type InteractionMediaContent =
+  | Interactions.ImageContent
+  | Interactions.AudioContent
+  | Interactions.VideoContent
+  | Interactions.DocumentContent;
+
+/**
+ * Content types that can be sent as part of a turn.
+ */
+type InteractionInputContent =
+  | Interactions.TextContent
+  | InteractionMediaContent
+  | Interactions.CodeExecutionCallContent
+  | Interactions.CodeExecutionResultContent;
+
+/**
+ * Converts a normalized media source into the matching Interactions content type.
+ */
+function formatMediaContent(media: MediaSource): InteractionMediaContent {
+  const mediaContent: InteractionMediaContent = {
+    type: media.kind,
+  };
+
+  const mimeType = resolveMimeType(media);
+  if (mimeType) {
+    mediaContent.mime_type = mimeType;
+  }
+  if (media.data !== undefined) {
+    mediaContent.data = media.data;
+  }
+  if (media.uri) {
+    mediaContent.uri = media.uri;
+  }
+  return mediaContent;
+}
+
+/**
+ * Converts an `executable_code` or `code_execution_result` content block back into Interactions content.
+ */
+function formatCodeExecutionContent(
+  block: ExecutableCodeContentBlock | CodeExecutionResultContentBlock,
+): Interactions.CodeExecutionCallContent | Interactions.CodeExecutionResultContent {
+  if (block.type === 'executable_code') {
+    return {
+      type: 'code_execution_call',
+      id: block.id,
+      // The Interactions API only types Python, but the stored language is sent back as received
+      arguments: { code: block.code, language: (block.language ?? 'python').toLowerCase() as 'python' },
+    };
+  }
+  return {
+    type: 'code_execution_result',
+    call_id: block.call_id,
+    result: block.output,
+    is_error: block.outcome !== undefined && block.outcome !== 'OUTCOME_OK',
+    signature: block.signature,
+  };
+}
+
+/**
+ * Converts Interactions code execution content to an `executable_code` or `code_execution_result` content block.
+ */
+function convertCodeExecutionContent(
+  content:
+    | Interactions.CodeExecutionCallContent
+    | Interactions.CodeExecutionResultContent
+    | Interactions.ContentDelta.CodeExecutionCallDelta
+    | Interactions.ContentDelta.CodeExecutionResultDelta,
+): ExecutableCodeContentBlock | CodeExecutionResultContentBlock {
+  if (content.type === 'code_execution_call') {
+    return {
+      type: 'executable_code',
+      code: content.arguments?.code ?? '',
+      language: content.arguments?.language ?? 'python',
+      id: content.id,
+    };
+  }
+  return {
+    type: 'code_execution_result',
+    output: content.result ?? '',
+    outcome: content.is_error ? 'OUTCOME_FAILED' : 'OUTCOME_OK',
+    call_id: content.call_id,
+    signature: content.signature,
+  };
+}
 
 /**
  * Formats LangChain content (string or array) into Google Content Parts.
  */
-function formatContent(content: MessageContent): Array<Interactions.TextContent | Interactions.ImageContent> {
+function formatContent(content: MessageContent, options: MediaParsingOptions): InteractionInputContent[] {
   if (typeof content === 'string') {
     return [{ type: 'text', text: content }];
   }
@@ -31,51 +161,22 @@ function formatContent(content: MessageContent): Array<Interactions.TextContent
         };
         return textPart;
       }
-      if (type === 'image_url') {
-        let data: string | undefined;
-        let mimeType: string | undefined;
-        let uri: string | undefined;
-        let url: string;
-
-        const imageUrl = part['image_url'];
-        if (typeof imageUrl === 'string') {
-          url = imageUrl;
-        } else if (imageUrl && typeof imageUrl === 'object' && 'url' in imageUrl) {
-          url = imageUrl['url'] as string;
-        } else {
-          throw new Error('Invalid image_url format');
-        }
-
-        if (url.startsWith('data:')) {
-          const matches = url.match(/^data:(.+);base64,(.+)$/);
-          if (matches) {
-            mimeType = matches[1];
-            data = matches[2];
-          } else {
-            throw new Error('Invalid data URL format');
-          }
-        } else {
-          uri = url;
-        }
 
-        const imageContent: Interactions.ImageContent = {
-          type: 'image',
-        };
+      // Send code execution steps back so the model sees its earlier runs
+      if (type === 'executable_code' || type === 'code_execution_result') {
+        return formatCodeExecutionContent(part as ExecutableCodeContentBlock | CodeExecutionResultContentBlock);
+      }
 
-        if (data && mimeType) {
-          imageContent.data = data;
-          imageContent.mime_type = mimeType as Interactions.ImageMimeType;
-        }
-        if (uri) {
-          imageContent.uri = uri;
-        }
-        return imageContent;
+      // Handle images, audio, video and documents (Base64 or URI)
+      const media = parseMediaBlock(part as Record<string, unknown>, options);
+      if (media) {
+        return formatMediaContent(media);
       }
       return undefined;
     });
 
     // Filter undefined and assert type
-    return parts.filter((part): part is Interactions.TextContent | Interactions.ImageContent => part !== undefined);
+    return parts.filter((part): part is InteractionInputContent => part !== undefined);
   }
 
   return [];
@@ -84,8 +185,9 @@ function formatContent(content: MessageContent): Array<Interactions.TextContent
 /**
  * Formats the result of a tool call.
  * Google expects `result` to be an object, string, or list of items.
+ * Array content becomes a list of items, with text blocks as strings and media blocks as media content.
  */
-function formatToolResult(content: MessageContent): unknown {
+function formatToolResult(content: MessageContent, options: MediaParsingOptions): unknown {
   if (typeof content === 'string') {
     try {
       return JSON.parse(content);
@@ -93,26 +195,29 @@ function formatToolResult(content: MessageContent): unknown {
       return content;
     }
   }
-  return content;
+
+  const items = content.map(block => {
+    if (block.type === 'text') {
+      return block['text'] as string;
+    }
+    const media = parseMediaBlock(block as Record<string, unknown>, options);
+    return media ? formatMediaContent(media) : block;
+  });
+  return { items };
 }
 
 /**
  * Converts a LangChain BaseMessage to a Google Interactions API Turn.
  * Handles mapping of roles, content parts, tool calls, and thought signatures.
  */
-function convertMessageToGoogleTurn(message: BaseMessage): Interactions.Turn | null {
+function convertMessageToGoogleTurn(message: BaseMessage, options: MediaParsingOptions): Interactions.Turn | null {
   if (HumanMessage.isInstance(message)) {
     return {
       role: 'user',
-      content: formatContent(message.content),
+      content: formatContent(message.content, options),
     };
   } else if (AIMessage.isInstance(message)) {
-    const parts: Array<
-      | Interactions.TextContent
-      | Interactions.ImageContent
-      | Interactions.FunctionCallContent
-      | Interactions.ThoughtContent
-    > = [];
+    const parts: Array<InteractionInputContent | Interactions.FunctionCallContent | Interactions.ThoughtContent> = [];
 
     // Handle Thought Signature (Critical for Gemini 3)
     const thoughtSignature = message.response_metadata?.['thought_signature'];
@@ -130,7 +235,7 @@ function convertMessageToGoogleTurn(message: BaseMessage): Interactions.Turn | n
         text: message.content,
       });
     } else if (Array.isArray(message.content)) {
-      parts.push(...formatContent(message.content));
+      parts.push(...formatContent(message.content, options));
     }
 
     // Handle Tool Calls
@@ -158,7 +263,7 @@ function convertMessageToGoogleTurn(message: BaseMessage): Interactions.Turn | n
           type: 'function_result' as const,
           call_id: message.tool_call_id,
           name: message.name,
-          result: formatToolResult(message.content),
+          result: formatToolResult(message.content, options),
           is_error: message.status === 'error',
         },
       ],
@@ -169,7 +274,7 @@ function convertMessageToGoogleTurn(message: BaseMessage): Interactions.Turn | n
   } else if (ChatMessage.isInstance(message)) {
     return {
       role: message.role === 'assistant' ? 'model' : (message.role as string),
-      content: formatContent(message.content),
+      content: formatContent(message.content, options),
     };
   }
 
@@ -180,7 +285,10 @@ function convertMessageToGoogleTurn(message: BaseMessage): Interactions.Turn | n
  * Converts a list of LangChain messages to the Google Interactions API payload.
  * Separates system instructions from the conversation history.
  */
-export function convertMessagesToGoogleInteractionPayload(messages: BaseMessage[]): {
+export function convertMessagesToGoogleInteractionPayload(
+  messages: BaseMessage[],
+  options: MediaParsingOptions = {},
+): {
   input: Interactions.Turn[];
   system_instruction?: string;
 } {
@@ -207,7 +315,7 @@ export function convertMessagesToGoogleInteractionPayload(messages: BaseMessage[
         }
       }
     } else {
-      const turn = convertMessageToGoogleTurn(message);
+      const turn = convertMessageToGoogleTurn(message, options);
       if (turn) {
         input.push(turn);
       }
@@ -230,17 +338,15 @@ export function convertInteractionToChatGeneration(
   const responseMetadata: Record<string, unknown> = {};
 
   // Extract usage if provided in the interaction object
-  let usage: UsageMetadata | undefined = usageMetadata;
-  if (!usage && response.usage) {
-    usage = {
-      input_tokens: response.usage.total_input_tokens || 0,
-      output_tokens: response.usage.total_output_tokens || 0,
-      total_tokens: response.usage.total_tokens || 0,
-    };
-  }
+  const usage = usageMetadata ?? convertInteractionUsage(response.usage);
 
   let textContent = '';
 
+  // Search results are used to resolve the titles of cited URLs
+  const searchResults = outputs.flatMap(output =>
+    output.type === 'google_search_result' ? (output.result ?? []) : [],
+  );
+
   for (const output of outputs) {
     // Use bracket notation to access type to avoid potential TS union mismatches
     const type = output['type'];
@@ -248,7 +354,22 @@ export function convertInteractionToChatGeneration(
     if (type === 'text') {
       const text = output['text'] || '';
       textContent += text;
-      contentBlocks.push({ type: 'text', text: text });
+      if (output['annotations']?.length) {
+        const annotations = convertInteractionAnnotationsToCitations(text, output['annotations'], searchResults);
+        contentBlocks.push({ type: 'text', text, annotations });
+      } else {
+        contentBlocks.push({ type: 'text', text: text });
+      }
+    } else if (type === 'google_search_call') {
+      const queries = (responseMetadata['web_search_queries'] as string[] | undefined) ?? [];
+      queries.push(...(output['arguments']?.queries ?? []));
+      responseMetadata['web_search_queries'] = queries;
+    } else if (type === 'google_search_result') {
+      // The rendered Google Search suggestions that must be displayed alongside grounded answers
+      const renderedContent = output['result']?.find(result => result.rendered_content)?.rendered_content;
+      if (renderedContent) {
+        responseMetadata['search_entry_point'] = { rendered_content: renderedContent };
+      }
     } else if (type === 'image') {
       // Handle generated images
       contentBlocks.push({
@@ -257,6 +378,11 @@ export function convertInteractionToChatGeneration(
           url: `data:${output['mime_type']};base64,${output['data']}`,
         },
       });
+    } else if (type === 'audio') {
+      // Handle generated speech
+      if (output['data']) {
+        contentBlocks.push(createAudioContentBlock(output['data'], output['mime_type']));
+      }
     } else if (type === 'function_call') {
       toolCalls.push({
         id: output['id'],
@@ -277,14 +403,14 @@ export function convertInteractionToChatGeneration(
           reasoning: reasoningText,
         });
       }
-    } else if (type === 'code_execution_result') {
-      responseMetadata['code_execution_result'] = output;
+    } else if (type === 'code_execution_call' || type === 'code_execution_result') {
+      contentBlocks.push(convertCodeExecutionContent(output));
     }
   }
 
   // Flatten content to string if it only contains text
   let finalContent: MessageContent = contentBlocks;
-  const isOnlyText = contentBlocks.every(block => block.type === 'text');
+  const isOnlyText = contentBlocks.every(block => block.type === 'text' && !('annotations' in block));
   if (isOnlyText && textContent !== '') {
     finalContent = textContent;
   }
@@ -345,6 +471,15 @@ export function makeMessageChunkFromGoogleInteractionEvent(
           },
         ],
       });
+    } else if (type === 'audio') {
+      if (!delta['data']) return null;
+      return new AIMessageChunk({
+        content: [createAudioContentBlock(delta['data'], delta['mime_type'])],
+      });
+    } else if (type === 'code_execution_call' || type === 'code_execution_result') {
+      return new AIMessageChunk({
+        content: [convertCodeExecutionContent(delta)],
+      });
     } else if (type === 'thought_signature') {
       return new AIMessageChunk({
         content: '',
@@ -374,11 +509,7 @@ export function makeMessageChunkFromGoogleInteractionEvent(
     if (usage) {
       return new AIMessageChunk({
         content: '',
-        usage_metadata: {
-          input_tokens: usage.total_input_tokens || 0,
-          output_tokens: usage.total_output_tokens || 0,
-          total_tokens: usage.total_tokens || 0,
-        },
+        usage_metadata: convertInteractionUsage(usage),
         response_metadata: {
           interaction_id: event.interaction?.id,
         },
@@ -388,3 +519,56 @@ export function makeMessageChunkFromGoogleInteractionEvent(
 
   return null;
 }
+
+/**
+ * Collects the text, annotations and Google Search results of a streamed interaction, whose citations can only
+ * be built once the stream is complete, like `makeStreamCitationsChunk` does for the standard API.
+ * Annotation spans refer to the text of their output, and are shifted to index the whole streamed text.
+ */
+export class InteractionStreamCitations {
+  private outputs = new Map<number, { offset: number; text: string; annotations: Interactions.Annotation[] }>();
+
+  private searchResults: Interactions.GoogleSearchResult[] = [];
+
+  private streamedLength = 0;
+
+  /**
+   * Records the content of a stream event.
+   */
+  add(event: Interactions.InteractionSSEEvent): void {
+    if (event.event_type !== 'content.delta' || !event.delta) return;
+
+    const delta = event.delta;
+    if (delta.type === 'google_search_result') {
+      this.searchResults.push(...(delta.result ?? []));
+    } else if (delta.type === 'text') {
+      const index = event.index ?? 0;
+      let output = this.outputs.get(index);
+      if (!output) {
+        output = { offset: this.streamedLength, text: '', annotations: [] };
+        this.outputs.set(index, output);
+      }
+      output.text += delta.text ?? '';
+      output.annotations.push(...(delta.annotations ?? []));
+      this.streamedLength += (delta.text ?? '').length;
+    }
+  }
+
+  /**
+   * Returns a chunk carrying the citations in `response_metadata.citations`, or undefined if there are none.
+   */
+  makeCitationsChunk(): ChatGenerationChunk | undefined {
+    const citations = [...this.outputs.values()].flatMap(({ offset, text, annotations }) =>
+      convertInteractionAnnotationsToCitations(text, annotations, this.searchResults).map(citation => ({
+        ...citation,
+        startIndex: (citation.startIndex ?? 0) + offset,
+        endIndex: (citation.endIndex ?? text.length) + offset,
+      })),
+    );
+    if (citations.length === 0) return undefined;
+    return new ChatGenerationChunk({
+      message: new AIMessageChunk({ content: '', response_metadata: { citations } }),
+      text: '',
+    });
+  }
+}
@@ -0,0 +1,183 @@
+import { getMimeTypeFromUri, sniffMimeType } from './mime-types.js';
+
+/**
+ * Media kinds understood by both the standard and Interactions APIs.
+ */
+export type MediaKind = 'image' | 'audio' | 'video' | 'document';
+
+/**
+ * A multimodal content block normalized across LangChain's block formats.
+ * Either `data` (base64) or `uri` is set.
+ */
+export interface MediaSource {
+  kind: MediaKind;
+  mimeType?: string;
+  data?: string;
+  uri?: string;
+}
+
+/**
+ * Options for reading media content blocks.
+ */
+export interface MediaParsingOptions {
+  /**
+   * Whether to infer the MIME type of base64 data without one from its leading bytes.
+   */
+  sniffMimeTypes?: boolean;
+}
+
+/**
+ * Block types that carry media, besides the legacy `image_url` block.
+ */
+const MEDIA_BLOCK_TYPES = ['image', 'audio', 'video', 'file', 'text-plain'];
+
+/**
+ * Helper to parse a base64 data URL into mimeType and data.
+ */
+export function parseBase64DataUrl(dataUrl: string): { mimeType: string; data: string } {
+  const matches = dataUrl.match(/^data:(.+);base64,(.+)$/);
+  if (!matches || matches.length !== 3) {
+    throw new Error('Invalid base64 data URL');
+  }
+  return { mimeType: matches[1], data: matches[2] };
+}
+
+/**
+ * Determines the media kind of a block from its type, refining generic `file` blocks by MIME type.
+ */
+function getMediaKind(type: string, mimeType?: string): MediaKind {
+  if (type === 'image' || type === 'audio' || type === 'video') {
+    return type;
+  }
+  if (type === 'file' && mimeType) {
+    const [topLevel] = mimeType.split('/');
+    if (topLevel === 'image' || topLevel === 'audio' || topLevel === 'video') {
+      return topLevel;
+    }
+  }
+  return 'document';
+}
+
+function fromUrl(url: string, mimeType?: string): Omit<MediaSource, 'kind'> {
+  if (url.startsWith('data:')) {
+    const parsed = parseBase64DataUrl(url);
+    return { mimeType: mimeType ?? parsed.mimeType, data: parsed.data };
+  }
+  return { mimeType, uri: url };
+}
+
+function toBase64(data: string | Uint8Array): string {
+  return typeof data === 'string' ? data : Buffer.from(data).toString('base64');
+}
+
+/**
+ * Reads the media payload (base64 data or URI) and the explicit MIME type of a block.
+ */
+function readMediaPayload(block: Record<string, unknown>): Omit<MediaSource, 'kind'> {
+  const type = block['type'] as string;
+  const mimeType = (block['mimeType'] ?? block['mime_type']) as string | undefined;
+
+  if (type === 'image_url') {
+    const imageUrl = block['image_url'];
+    if (typeof imageUrl === 'string') {
+      return fromUrl(imageUrl);
+    } else if (imageUrl && typeof imageUrl === 'object' && 'url' in imageUrl) {
+      return fromUrl((imageUrl as { url: string }).url);
+    }
+    throw new Error('Invalid image_url block format');
+  }
+
+  // Legacy data content blocks
+  const sourceType = block['source_type'];
+  if (sourceType === 'base64') {
+    return { mimeType, data: block['data'] as string };
+  } else if (sourceType === 'url') {
+    return fromUrl(block['url'] as string, mimeType);
+  } else if (sourceType === 'id') {
+    return { mimeType, uri: block['id'] as string };
+  } else if (sourceType === 'text') {
+    return { mimeType: mimeType ?? 'text/plain', data: toBase64(Buffer.from(block['text'] as string)) };
+  }
+
+  // Standard content blocks
+  if (block['data'] !== undefined) {
+    return { mimeType, data: toBase64(block['data'] as string | Uint8Array) };
+  } else if (typeof block['url'] === 'string') {
+    return fromUrl(block['url'], mimeType);
+  } else if (typeof block['fileId'] === 'string') {
+    return { mimeType, uri: block['fileId'] };
+  } else if (type === 'text-plain' && typeof block['text'] === 'string') {
+    return { mimeType: mimeType ?? 'text/plain', data: toBase64(Buffer.from(block['text'])) };
+  }
+
+  throw new Error(`Content block of type "${type}" must provide "data", "url" or "fileId".`);
+}
+
+/**
+ * Normalizes a LangChain media content block into a MediaSource.
+ * Supports `image_url` blocks, standard `image`/`audio`/`video`/`file`/`text-plain` blocks
+ * (`data`, `url` or `fileId`), and legacy data blocks using `source_type`.
+ * The MIME type is taken from the block, else inferred from the file extension, else sniffed from base64 data
+ * when `sniffMimeTypes` is set. `image_url` blocks fall back to JPEG, except for Files API URIs.
+ * Returns undefined for blocks that do not carry media.
+ */
+export function parseMediaBlock(
+  block: Record<string, unknown>,
+  options: MediaParsingOptions = {},
+): MediaSource | undefined {
+  const type = block['type'] as string;
+  if (type !== 'image_url' && !MEDIA_BLOCK_TYPES.includes(type)) {
+    return undefined;
+  }
+
+  const payload = readMediaPayload(block);
+  const mimeType =
+    payload.mimeType ??
+    (payload.uri ? getMimeTypeFromUri(payload.uri) : undefined) ??
+    (payload.data && options.sniffMimeTypes ? sniffMimeType(payload.data) : undefined) ??
+    (type === 'image_url' && payload.uri && !isFilesApiUri(payload.uri) ? 'image/jpeg' : undefined);
+
+  return { ...payload, mimeType, kind: getMediaKind(type === 'image_url' ? 'image' : type, mimeType) };
+}
+
+/**
+ * Checks whether a URI references a file uploaded through the Gemini Files API.
+ */
+function isFilesApiUri(uri: string): boolean {
+  return /^https:\/\/generativelanguage\.googleapis\.com\/[^/]+\/files\/[^/?#]+/.test(uri);
+}
+
+/**
+ * Returns the MIME type to send for a media source, failing with a descriptive error if it could not be determined.
+ * Files API URIs may go without one, since the API knows the type of uploaded files.
+ */
+export function resolveMimeType(media: MediaSource): string | undefined {
+  if (media.mimeType || (media.uri && isFilesApiUri(media.uri))) {
+    return media.mimeType;
+  }
+  const source = media.uri ? `"${media.uri}"` : 'inline data';
+  throw new Error(
+    `Could not determine the MIME type of ${media.kind} content from ${source}. ` +
+      `Set "mimeType" on the content block${media.data !== undefined ? ' or enable "sniffMimeTypes"' : ''}.`,
+  );
+}
+
+/**
+ * Builds a standard `audio` content block for generated audio. Parameters of the MIME type
+ * (e.g. `audio/L16;codec=pcm;rate=24000` from TTS models) are exposed as metadata.
+ */
+export function createAudioContentBlock(
+  data: string,
+  mimeType?: string,
+): { type: 'audio'; data: string; mimeType?: string; metadata: Record<string, unknown> } {
+  const metadata: Record<string, unknown> = {};
+  for (const param of mimeType?.split(';').slice(1) ?? []) {
+    const [key, value] = param.trim().split('=');
+    if (key === 'rate') {
+      metadata['sampleRate'] = Number(value);
+    } else if (key && value !== undefined) {
+      metadata[key] = value;
+    }
+  }
+  return { type: 'audio', data, mimeType, metadata };
+}
@@ -1,22 +1,52 @@
-import { type Content, type Part } from '@google/genai';
+import {
+  type Content,
+  type FunctionResponsePart,
+  type Language,
+  type Outcome,
+  type Part,
+} from '@google/genai';
 import { AIMessage, type BaseMessage, type MessageContent, SystemMessage, ToolMessage } from '@langchain/core/messages';
 import { type ToolCall } from '@langchain/core/messages/tool';
 
+import { type CodeExecutionResultContentBlock, type ExecutableCodeContentBlock } from '../types.js';
+import { type MediaParsingOptions, type MediaSource, parseMediaBlock, resolveMimeType } from './media-blocks.js';
+import { getApiToolCallId } from './tool-utils.js';
+
+/**
+ * Converts a normalized media source into an inline or file-referenced Google Part.
+ */
+function convertMediaToPart(media: MediaSource): Part {
+  if (media.data !== undefined) {
+    return {
+      inlineData: {
+        mimeType: resolveMimeType(media),
+        data: media.data,
+      },
+    };
+  }
+  // Handle File URI (Google Cloud Storage, File API or public URL)
+  return {
+    fileData: {
+      mimeType: resolveMimeType(media),
+      fileUri: media.uri,
+    },
+  };
+}
+
 /**
- * Helper to parse a base64 data URL into mimeType and data.
+ * Converts a normalized media source into a part of a function response.
  */
-function parseBase64Data(dataUrl: string): { mimeType: string; data: string } {
-  const matches = dataUrl.match(/^data:(.+);base64,(.+)$/);
-  if (!matches || matches.length !== 3) {
-    throw new Error('Invalid base64 image data URL');
+function convertMediaToFunctionResponsePart(media: MediaSource): FunctionResponsePart {
+  if (media.data !== undefined) {
+    return { inlineData: { mimeType: resolveMimeType(media), data: media.data } };
   }
-  return { mimeType: matches[1], data: matches[2] };
+  return { fileData: { mimeType: resolveMimeType(media), fileUri: media.uri } };
 }
 
 /**
  * Converts a LangChain MessageContent (string or complex array) into Google Parts.
  */
-function convertContentToParts(content: MessageContent): Part[] {
+function convertContentToParts(content: MessageContent, options: MediaParsingOptions): Part[] {
   if (typeof content === 'string') {
     if (content === '') return [];
     return [{ text: content }];
@@ -26,7 +56,6 @@ function convertContentToParts(content: MessageContent): Part[] {
     const b = block as {
       type: string;
       text?: string;
-      image_url?: string | { url: string };
       reasoning?: string;
     };
 
@@ -35,35 +64,18 @@ function convertContentToParts(content: MessageContent): Part[] {
     } else if (b.type === 'reasoning' && typeof b.reasoning === 'string') {
       // Convert LangChain reasoning block back to Google thought part
       return { text: b.reasoning, thought: true };
-    } else if (b.type === 'image_url' && b.image_url) {
-      let url: string;
-      if (typeof b.image_url === 'string') {
-        url = b.image_url;
-      } else if (typeof b.image_url === 'object' && 'url' in b.image_url) {
-        url = b.image_url.url;
-      } else {
-        throw new Error('Invalid image_url block format');
-      }
+    } else if (b.type === 'executable_code') {
+      const { code, language } = block as ExecutableCodeContentBlock;
+      return { executableCode: { code, language: (language ?? 'python').toUpperCase() as Language } };
+    } else if (b.type === 'code_execution_result') {
+      const { output, outcome } = block as CodeExecutionResultContentBlock;
+      return { codeExecutionResult: { output, outcome: outcome as Outcome } };
+    }
 
-      // Handle Base64
-      if (url.startsWith('data:')) {
-        const { mimeType, data } = parseBase64Data(url);
-        return {
-          inlineData: {
-            mimeType,
-            data,
-          },
-        };
-      }
-      // Handle File URI (Google Cloud Storage or File API)
-      else if (url.startsWith('gs://') || url.startsWith('https://')) {
-        return {
-          fileData: {
-            mimeType: 'image/jpeg', // Fallback, ideally should be inferred
-            fileUri: url,
-          },
-        };
-      }
+    // Handle images, audio, video and documents (Base64 or URI)
+    const media = parseMediaBlock(block as Record<string, unknown>, options);
+    if (media) {
+      return convertMediaToPart(media);
     }
     throw new Error(`Unsupported content block type: ${b.type}`);
   });
@@ -75,6 +87,7 @@ function convertContentToParts(content: MessageContent): Part[] {
 function convertToolCallToPart(toolCall: ToolCall): Part {
   return {
     functionCall: {
+      id: toolCall.id,
       name: toolCall.name,
       args: toolCall.args,
     },
@@ -83,24 +96,77 @@ function convertToolCallToPart(toolCall: ToolCall): Part {
 
 /**
  * Converts a LangChain ToolMessage to a Google FunctionResponse Part.
+ * The name falls back to that of the originating call, since ToolMessages often omit it.
  */
-function convertToolMessageToPart(message: ToolMessage): Part {
+function convertToolMessageToPart(message: ToolMessage, options: MediaParsingOptions, toolCall?: ToolCall): Part {
+  const name = message.name || toolCall?.name || ''; // Name is required by Google
+
+  // Media returned by the tool (e.g. screenshots) is sent as parts of the response, the rest as its content
+  let content: unknown = message.content;
+  const mediaParts: FunctionResponsePart[] = [];
+  if (Array.isArray(message.content)) {
+    const otherBlocks = [];
+    for (const block of message.content) {
+      const media = parseMediaBlock(block as Record<string, unknown>, options);
+      if (media) {
+        mediaParts.push(convertMediaToFunctionResponsePart(media));
+      } else {
+        otherBlocks.push(block);
+      }
+    }
+    if (mediaParts.length > 0) {
+      const isOnlyText = otherBlocks.every(block => block.type === 'text');
+      content = isOnlyText ? otherBlocks.map(block => block['text'] as string).join('') : otherBlocks;
+    }
+  }
+
   return {
     functionResponse: {
-      name: message.name || '', // Name is required by Google
+      id: message.tool_call_id,
+      name,
       response: {
-        name: message.name,
-        content: message.content,
+        name,
+        content,
       },
+      parts: mediaParts.length > 0 ? mediaParts : undefined,
     },
   };
 }
 
+/**
+ * Reorders the function responses among the parts of a turn to match the order of the originating calls.
+ * Other parts and responses to unknown calls keep their positions.
+ */
+function orderFunctionResponses(parts: Part[], callOrder: Map<string, number>): void {
+  const slots = parts.flatMap((part, index) => (part.functionResponse ? [index] : []));
+  const position = (part: Part) => callOrder.get(part.functionResponse?.id ?? '') ?? Number.MAX_SAFE_INTEGER;
+  const responses = slots.map(index => parts[index]).sort((a, b) => position(a) - position(b));
+  slots.forEach((slot, index) => {
+    parts[slot] = responses[index];
+  });
+}
+
+/**
+ * Removes the IDs created locally for function calls the API returned without one, once responses are ordered.
+ * The API would not recognize them, and requests must match those it recorded.
+ */
+function removeLocalToolCallIds(parts: Part[]): void {
+  for (const part of parts) {
+    const call = part.functionCall ?? part.functionResponse;
+    if (call?.id !== undefined && getApiToolCallId(call.id) === undefined) {
+      delete call.id;
+    }
+  }
+}
+
 /**
  * Main function to convert LangChain messages to Google GenAI payload.
  * Handles merging consecutive messages of the same role.
  */
-export function convertMessagesToGooglePayload(messages: BaseMessage[]): {
+export function convertMessagesToGooglePayload(
+  messages: BaseMessage[],
+  options: MediaParsingOptions = {},
+): {
   contents: Content[];
   systemInstruction?: Content;
 } {
@@ -110,7 +176,7 @@ export function convertMessagesToGooglePayload(messages: BaseMessage[]): {
   // Extract System Messages
   const systemMessages = messages.filter(msg => SystemMessage.isInstance(msg));
   if (systemMessages.length > 0) {
-    const systemParts = systemMessages.flatMap(msg => convertContentToParts(msg.content));
+    const systemParts = systemMessages.flatMap(msg => convertContentToParts(msg.content, options));
     if (systemParts.length > 0) {
       systemInstruction = {
         role: 'system', // Technically 'system' isn't a valid role in 'contents', but used for config
@@ -122,24 +188,34 @@ export function convertMessagesToGooglePayload(messages: BaseMessage[]): {
   // Process Non-System Messages
   const chatMessages = messages.filter(msg => !SystemMessage.isInstance(msg));
 
+  // Tool calls by ID, and their position within the AI message that made them
+  const toolCalls = new Map<string, ToolCall>();
+  const callOrder = new Map<string, number>();
+
   for (const message of chatMessages) {
     const role = AIMessage.isInstance(message) ? 'model' : 'user';
     const parts: Part[] = [];
 
-    // Handle Content (Text/Images/Reasoning)
-    parts.push(...convertContentToParts(message.content));
+    // Handle Content (Text/Images/Reasoning). Tool results are sent in their function response instead.
+    if (!ToolMessage.isInstance(message)) {
+      parts.push(...convertContentToParts(message.content, options));
+    }
 
     // Handle Tool Calls (AI Message)
     if (AIMessage.isInstance(message) && message.tool_calls?.length) {
-      for (const toolCall of message.tool_calls) {
+      for (const [index, toolCall] of message.tool_calls.entries()) {
         parts.push(convertToolCallToPart(toolCall));
+        if (toolCall.id) {
+          toolCalls.set(toolCall.id, toolCall);
+          callOrder.set(toolCall.id, index);
+        }
       }
     }
 
     // Handle Tool Results (Tool Message)
     // Note: ToolMessages are mapped to 'user' role in Google GenAI
     if (ToolMessage.isInstance(message)) {
-      parts.push(convertToolMessageToPart(message));
+      parts.push(convertToolMessageToPart(message, options, toolCalls.get(message.tool_call_id)));
     }
 
     // Reinject Thought Signature if present in AIMessage metadata
@@ -175,6 +251,14 @@ export function convertMessagesToGooglePayload(messages: BaseMessage[]): {
     }
   }
 
+  // Parallel tool results may come back in any order, the model expects them in call order
+  for (const content of contents) {
+    if (content.role === 'user' && content.parts) {
+      orderFunctionResponses(content.parts, callOrder);
+    }
+    removeLocalToolCallIds(content.parts ?? []);
+  }
+
   return {
     contents,
     systemInstruction,
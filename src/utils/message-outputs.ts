@@ -1,20 +1,21 @@
-import { FunctionCall, GenerateContentResponse, UsageMetadata as GoogleUsageMetadata, Part } from '@google/genai';
-import { AIMessage, AIMessageChunk, type MessageContent, UsageMetadata } from '@langchain/core/messages';
+import {
+  type Blob as GoogleBlob,
+  type CodeExecutionResult,
+  type ExecutableCode,
+  FunctionCall,
+  GenerateContentResponse,
+  type GroundingMetadata,
+  Part,
+} from '@google/genai';
+import { AIMessage, AIMessageChunk, type ContentBlock, type MessageContent } from '@langchain/core/messages';
 import { ToolCallChunk } from '@langchain/core/messages/tool';
 import { ChatGeneration, ChatGenerationChunk } from '@langchain/core/outputs';
-import { v4 as uuidv4 } from 'uuid';
 
-/**
- * Extracts usage metadata from Google's format to LangChain's format.
- */
-function extractUsageMetadata(usage?: GoogleUsageMetadata): UsageMetadata | undefined {
-  if (!usage) return undefined;
-  return {
-    input_tokens: usage.promptTokenCount ?? 0,
-    output_tokens: usage.responseTokenCount ?? 0,
-    total_tokens: usage.totalTokenCount ?? 0,
-  };
-}
+import { type CodeExecutionResultContentBlock, type ExecutableCodeContentBlock } from '../types.js';
+import { convertGroundingMetadataToCitations } from './grounding.js';
+import { createAudioContentBlock } from './media-blocks.js';
+import { createLocalToolCallId } from './tool-utils.js';
+import { convertGoogleUsageMetadata } from './usage-metadata.js';
 
 /**
  * Converts a Google FunctionCall to a LangChain ToolCallChunk.
@@ -23,12 +24,53 @@ function convertFunctionCallToToolCallChunk(fc: FunctionCall, index: number): To
   return {
     name: fc.name ?? '',
     args: JSON.stringify(fc.args),
-    id: fc.id ?? uuidv4(),
+    id: fc.id ?? createLocalToolCallId(),
     index,
     type: 'tool_call_chunk',
   };
 }
 
+/**
+ * Converts generated inline media (e.g. from image generation or TTS models) to a content block.
+ * Images use the same `image_url` block as the Interactions API output.
+ */
+function convertInlineDataToContentBlock(inlineData: GoogleBlob): ContentBlock | undefined {
+  if (inlineData.mimeType?.startsWith('audio/') && inlineData.data) {
+    return createAudioContentBlock(inlineData.data, inlineData.mimeType);
+  }
+  if (inlineData.mimeType?.startsWith('image/')) {
+    return {
+      type: 'image_url',
+      image_url: {
+        url: `data:${inlineData.mimeType};base64,${inlineData.data}`,
+      },
+    };
+  }
+  return undefined;
+}
+
+/**
+ * Converts code generated by the code execution tool to an `executable_code` content block.
+ */
+function convertExecutableCodeToContentBlock(executableCode: ExecutableCode): ExecutableCodeContentBlock {
+  return {
+    type: 'executable_code',
+    code: executableCode.code ?? '',
+    language: (executableCode.language ?? 'python').toLowerCase(),
+  };
+}
+
+/**
+ * Converts the result of running generated code to a `code_execution_result` content block.
+ */
+function convertCodeExecutionResultToContentBlock(result: CodeExecutionResult): CodeExecutionResultContentBlock {
+  return {
+    type: 'code_execution_result',
+    output: result.output ?? '',
+    outcome: result.outcome,
+  };
+}
+
 /**
  * Converts a single Google Part to an AIMessageChunk.
  */
@@ -60,6 +102,30 @@ function convertPartToChunk(part: Part, index: number): AIMessageChunk {
     });
   }
 
+  if (part.inlineData !== undefined) {
+    const block = convertInlineDataToContentBlock(part.inlineData);
+    if (block) {
+      return new AIMessageChunk({
+        content: [block],
+        response_metadata: responseMetadata,
+      });
+    }
+  }
+
+  if (part.executableCode !== undefined) {
+    return new AIMessageChunk({
+      content: [convertExecutableCodeToContentBlock(part.executableCode)],
+      response_metadata: responseMetadata,
+    });
+  }
+
+  if (part.codeExecutionResult !== undefined) {
+    return new AIMessageChunk({
+      content: [convertCodeExecutionResultToContentBlock(part.codeExecutionResult)],
+      response_metadata: responseMetadata,
+    });
+  }
+
   if (part.functionCall !== undefined) {
     return new AIMessageChunk({
       content: '',
@@ -92,7 +158,7 @@ export function convertGoogleStreamChunkToLangChainChunk(
       return new ChatGenerationChunk({
         message: new AIMessageChunk({
           content: '',
-          usage_metadata: extractUsageMetadata(response.usageMetadata),
+          usage_metadata: convertGoogleUsageMetadata(response.usageMetadata),
         }),
         text: '',
       });
@@ -109,7 +175,17 @@ export function convertGoogleStreamChunkToLangChainChunk(
 
   // Attach usage metadata if present in this chunk
   if (response.usageMetadata) {
-    chunk.usage_metadata = extractUsageMetadata(response.usageMetadata);
+    chunk.usage_metadata = convertGoogleUsageMetadata(response.usageMetadata);
+  }
+
+  // Grounding spans refer to the complete response text, so citations are built by `makeStreamCitationsChunk`
+  if (candidate.groundingMetadata) {
+    chunk.response_metadata = {
+      ...chunk.response_metadata,
+      groundingMetadata: candidate.groundingMetadata,
+      searchEntryPoint: candidate.groundingMetadata.searchEntryPoint,
+      webSearchQueries: candidate.groundingMetadata.webSearchQueries,
+    };
   }
 
   // Determine text content for the chunk.
@@ -132,6 +208,22 @@ export function convertGoogleStreamChunkToLangChainChunk(
   });
 }
 
+/**
+ * Builds the citations of a streamed response once the stream is complete, since grounding spans refer to
+ * the whole text. They are returned in `response_metadata.citations`, with spans into the streamed text.
+ */
+export function makeStreamCitationsChunk(
+  metadata: GroundingMetadata,
+  streamedText: string,
+): ChatGenerationChunk | undefined {
+  const citations = convertGroundingMetadataToCitations(metadata, [{ text: streamedText }]).get(0);
+  if (!citations?.length) return undefined;
+  return new ChatGenerationChunk({
+    message: new AIMessageChunk({ content: '', response_metadata: { citations } }),
+    text: '',
+  });
+}
+
 /**
  * Converts a full non-streaming Google GenAI response to a ChatGeneration.
  */
@@ -150,8 +242,17 @@ export function convertGoogleResponseToChatGeneration(response: GenerateContentR
     ...response.promptFeedback, // Include safety feedback
   };
 
+  // Citations from Google Search (or other grounding tools), keyed by the index of the part they annotate
+  const citations = candidate.groundingMetadata
+    ? convertGroundingMetadataToCitations(candidate.groundingMetadata, candidate.content.parts ?? [])
+    : new Map<number, ContentBlock.Citation[]>();
+  if (candidate.groundingMetadata) {
+    responseMetadata['searchEntryPoint'] = candidate.groundingMetadata.searchEntryPoint;
+    responseMetadata['webSearchQueries'] = candidate.groundingMetadata.webSearchQueries;
+  }
+
   if (candidate.content.parts) {
-    for (const part of candidate.content.parts) {
+    for (const [index, part] of candidate.content.parts.entries()) {
       if (part.text) {
         if (part.thought) {
           // It's a reasoning block
@@ -164,7 +265,17 @@ export function convertGoogleResponseToChatGeneration(response: GenerateContentR
         } else {
           // It's standard text
           textContent += part.text;
-          contentBlocks.push({ type: 'text', text: part.text });
+          const annotations = citations.get(index);
+          contentBlocks.push(
+            annotations ? { type: 'text', text: part.text, annotations } : { type: 'text', text: part.text },
+          );
+        }
+      }
+
+      if (part.inlineData) {
+        const block = convertInlineDataToContentBlock(part.inlineData);
+        if (block) {
+          contentBlocks.push(block);
         }
       }
 
@@ -172,7 +283,7 @@ export function convertGoogleResponseToChatGeneration(response: GenerateContentR
         toolCalls.push({
           name: part.functionCall.name ?? '',
           args: part.functionCall.args ?? {},
-          id: part.functionCall.id ?? uuidv4(),
+          id: part.functionCall.id ?? createLocalToolCallId(),
           type: 'tool_call' as const,
         });
       }
@@ -181,26 +292,26 @@ export function convertGoogleResponseToChatGeneration(response: GenerateContentR
       if (part.thoughtSignature) {
         responseMetadata['thoughtSignature'] = part.thoughtSignature;
       }
-      // Handle Code Execution
+      // Handle Code Execution, keeping every step in order
       if (part.executableCode) {
-        responseMetadata['executableCode'] = part.executableCode;
+        contentBlocks.push(convertExecutableCodeToContentBlock(part.executableCode));
       }
       if (part.codeExecutionResult) {
-        responseMetadata['codeExecutionResult'] = part.codeExecutionResult;
+        contentBlocks.push(convertCodeExecutionResultToContentBlock(part.codeExecutionResult));
       }
     }
   }
 
-  // If we have reasoning blocks, return content as an array of blocks.
+  // If we have reasoning, media, code execution or cited blocks, return content as an array of blocks.
   // Otherwise, return simple string for better compatibility with standard chains.
-  const hasReasoning = contentBlocks.some(b => b.type === 'reasoning');
-  const finalContent = hasReasoning ? contentBlocks : textContent;
+  const hasNonTextBlocks = contentBlocks.some(b => b.type !== 'text' || 'annotations' in b);
+  const finalContent = hasNonTextBlocks ? contentBlocks : textContent;
 
   const msg = new AIMessage({
     content: finalContent,
     tool_calls: toolCalls.length > 0 ? toolCalls : undefined,
     response_metadata: responseMetadata,
-    usage_metadata: extractUsageMetadata(response.usageMetadata),
+    usage_metadata: convertGoogleUsageMetadata(response.usageMetadata),
   });
 
   return {
@@ -0,0 +1,100 @@
+/**
+ * MIME types by file extension, using the names the Gemini API documents.
+ */
+const EXTENSION_MIME_TYPES: Record<string, string> = {
+  // Images
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+  heic: 'image/heic',
+  heif: 'image/heif',
+  gif: 'image/gif',
+  // Audio
+  wav: 'audio/wav',
+  mp3: 'audio/mp3',
+  aiff: 'audio/aiff',
+  aif: 'audio/aiff',
+  aac: 'audio/aac',
+  ogg: 'audio/ogg',
+  oga: 'audio/ogg',
+  flac: 'audio/flac',
+  m4a: 'audio/mp4',
+  // Video
+  mp4: 'video/mp4',
+  mpeg: 'video/mpeg',
+  mpg: 'video/mpg',
+  mov: 'video/mov',
+  avi: 'video/avi',
+  flv: 'video/x-flv',
+  webm: 'video/webm',
+  wmv: 'video/wmv',
+  '3gp': 'video/3gpp',
+  '3gpp': 'video/3gpp',
+  // Documents
+  pdf: 'application/pdf',
+  txt: 'text/plain',
+  md: 'text/md',
+  csv: 'text/csv',
+  html: 'text/html',
+  htm: 'text/html',
+  css: 'text/css',
+  xml: 'text/xml',
+  rtf: 'text/rtf',
+  js: 'text/javascript',
+  py: 'text/x-python',
+  json: 'application/json',
+};
+
+/**
+ * Infers a MIME type from the file extension of a path or URI, ignoring query strings and fragments.
+ */
+export function getMimeTypeFromUri(uri: string): string | undefined {
+  const path = uri.split(/[?#]/)[0];
+  const fileName = path.slice(path.lastIndexOf('/') + 1);
+  const dot = fileName.lastIndexOf('.');
+  if (dot === -1) return undefined;
+  return EXTENSION_MIME_TYPES[fileName.slice(dot + 1).toLowerCase()];
+}
+
+function startsWith(bytes: Uint8Array, signature: string, offset = 0): boolean {
+  if (bytes.length < offset + signature.length) return false;
+  for (let i = 0; i < signature.length; i++) {
+    if (bytes[offset + i] !== signature.charCodeAt(i)) return false;
+  }
+  return true;
+}
+
+/**
+ * Infers a MIME type from the leading "magic" bytes of base64 encoded data.
+ */
+export function sniffMimeType(base64: string): string | undefined {
+  // 16 bytes are enough for every signature below
+  const bytes = new Uint8Array(Buffer.from(base64.slice(0, 24), 'base64'));
+
+  if (startsWith(bytes, '\x89PNG')) return 'image/png';
+  if (startsWith(bytes, '\xFF\xD8\xFF')) return 'image/jpeg';
+  if (startsWith(bytes, 'GIF8')) return 'image/gif';
+  if (startsWith(bytes, '%PDF')) return 'application/pdf';
+  if (startsWith(bytes, 'RIFF')) {
+    if (startsWith(bytes, 'WEBP', 8)) return 'image/webp';
+    if (startsWith(bytes, 'WAVE', 8)) return 'audio/wav';
+    if (startsWith(bytes, 'AVI ', 8)) return 'video/avi';
+  }
+  if (startsWith(bytes, 'FORM') && startsWith(bytes, 'AIF', 8)) return 'audio/aiff';
+  if (startsWith(bytes, 'ftyp', 4)) {
+    if (startsWith(bytes, 'hei', 8) || startsWith(bytes, 'mif1', 8)) return 'image/heic';
+    if (startsWith(bytes, 'qt  ', 8)) return 'video/mov';
+    if (startsWith(bytes, 'M4A', 8)) return 'audio/mp4';
+    if (startsWith(bytes, '3gp', 8)) return 'video/3gpp';
+    return 'video/mp4';
+  }
+  if (startsWith(bytes, '\x1A\x45\xDF\xA3')) return 'video/webm';
+  if (startsWith(bytes, 'OggS')) return 'audio/ogg';
+  if (startsWith(bytes, 'fLaC')) return 'audio/flac';
+  if (startsWith(bytes, 'ID3') || (bytes[0] === 0xff && bytes.length > 1 && (bytes[1] & 0xe6) === 0xe2)) {
+    return 'audio/mp3';
+  }
+  if (bytes[0] === 0xff && bytes.length > 1 && (bytes[1] & 0xf6) === 0xf0) return 'audio/aac';
+  return undefined;
+}
@@ -0,0 +1,12 @@
+/**
+ * Finds the entry of a model in a table keyed by model name, matching the longest key that the model name
+ * equals or extends with a suffix, so that versioned names (e.g. `gemini-2.5-flash-preview-09-2025`)
+ * use the entry of their base model.
+ */
+export function findModelEntry<T>(model: string, table: Record<string, T>): T | undefined {
+  const name = model.replace(/^models\//, '');
+  const key = Object.keys(table)
+    .filter(candidate => name === candidate || name.startsWith(`${candidate}-`))
+    .sort((a, b) => b.length - a.length)[0];
+  return key ? table[key] : undefined;
+}
@@ -0,0 +1,65 @@
+import { type BaseMessage, type ContentBlock } from '@langchain/core/messages';
+import { JsonOutputParser, OutputParserException } from '@langchain/core/output_parsers';
+import { type InteropZodType, interopSafeParseAsync } from '@langchain/core/utils/types';
+
+/**
+ * Parses the JSON text of structured output responses.
+ * Unlike `JsonOutputParser`, it reads only text blocks, so responses that also contain reasoning blocks can be
+ * parsed and streamed. When streamed, it yields progressively more complete partial objects, followed by the
+ * complete object once validated against the zod schema, if one is given.
+ */
+export class StructuredJsonOutputParser<
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  T extends Record<string, any> = Record<string, any>,
+> extends JsonOutputParser<T> {
+  static lc_name() {
+    return 'StructuredJsonOutputParser';
+  }
+
+  zodSchema?: InteropZodType<T>;
+
+  constructor(fields?: { zodSchema?: InteropZodType<T> }) {
+    super();
+    this.zodSchema = fields?.zodSchema;
+  }
+
+  protected override _baseMessageContentToString(content: ContentBlock[]): string {
+    return content
+      .filter(block => block.type === 'text' && typeof block['text'] === 'string')
+      .map(block => block['text'] as string)
+      .join('');
+  }
+
+  override async parse(text: string): Promise<T> {
+    const parsed = await super.parse(text);
+    if (!this.zodSchema) {
+      return parsed;
+    }
+
+    const result = await interopSafeParseAsync(this.zodSchema, parsed);
+    if (!result.success) {
+      throw new OutputParserException(`Failed to parse. Text: "${text}". Error: ${result.error.message}`, text);
+    }
+    return result.data;
+  }
+
+  override async *_transform(inputGenerator: AsyncGenerator<string | BaseMessage>): AsyncGenerator<T> {
+    let text = '';
+    let previous: string | undefined;
+
+    for await (const chunk of inputGenerator) {
+      text += typeof chunk === 'string' ? chunk : this._baseMessageToString(chunk);
+      const parsed = await this.parsePartialResult([{ text }]);
+      if (parsed !== undefined && parsed !== null && JSON.stringify(parsed) !== previous) {
+        previous = JSON.stringify(parsed);
+        yield parsed;
+      }
+    }
+
+    // The last partial object is not validated, so finish with the complete, validated one
+    const final = await this.parse(text);
+    if (JSON.stringify(final) !== previous) {
+      yield final;
+    }
+  }
+}
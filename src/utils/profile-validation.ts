@@ -0,0 +1,91 @@
+import { type GenerateContentConfig, Modality } from '@google/genai';
+
+import { type GeminiModelProfile } from '../types.js';
+
+/**
+ * The parts of a call that are checked against the model profile.
+ */
+export interface ProfileValidationRequest {
+  /**
+   * The model or agent being called.
+   */
+  name: string;
+
+  /**
+   * The profile of the model, undefined for agents and unknown models.
+   */
+  profile?: GeminiModelProfile;
+
+  config: GenerateContentConfig;
+
+  /**
+   * Whether the call goes through the Interactions API.
+   */
+  interactionsApi: boolean;
+
+  /**
+   * Whether function tools are bound, as opposed to built-in tools only.
+   */
+  functionCalling: boolean;
+}
+
+/**
+ * Checks a call before it is sent. Throws for combinations the API would reject with a less helpful error,
+ * and returns warnings about options that would be silently ignored.
+ * Only the Interactions API limitations are checked for agents and models without a known profile.
+ */
+export function validateCallAgainstProfile(request: ProfileValidationRequest): string[] {
+  const { name, profile, config } = request;
+  const warnings: string[] = [];
+
+  if (request.interactionsApi && config.topK !== undefined) {
+    warnings.push(`"topK" is not supported by the Interactions API and is ignored for ${name}.`);
+  }
+
+  if (!profile) {
+    return warnings;
+  }
+
+  if (request.interactionsApi && profile.interactionsApi === false) {
+    throw new Error(`${name} is not available through the Interactions API.`);
+  }
+
+  const thinkingConfig = config.thinkingConfig;
+  if (thinkingConfig?.thinkingLevel !== undefined || thinkingConfig?.thinkingBudget !== undefined) {
+    if (!profile.thinking) {
+      throw new Error(`${name} does not support configuring thinking.`);
+    }
+    if (thinkingConfig.thinkingLevel !== undefined && profile.thinking === 'budget') {
+      throw new Error(`"thinkingLevel" is not supported by ${name}. Use "thinkingBudget" instead.`);
+    }
+  }
+
+  if (request.functionCalling && profile.toolCalling === false) {
+    throw new Error(`${name} does not support function calling.`);
+  }
+
+  if ((config.responseSchema || config.responseJsonSchema) && profile.structuredOutput === false) {
+    throw new Error(`${name} does not support structured output.`);
+  }
+
+  const unsupportedModality = config.responseModalities?.find(
+    modality =>
+      (modality === Modality.IMAGE && !profile.imageOutputs) || (modality === Modality.AUDIO && !profile.audioOutputs),
+  );
+  if (unsupportedModality) {
+    throw new Error(`${name} cannot respond with the ${unsupportedModality} modality.`);
+  }
+
+  if (
+    config.maxOutputTokens !== undefined &&
+    profile.maxOutputTokens !== undefined &&
+    config.maxOutputTokens > profile.maxOutputTokens
+  ) {
+    throw new Error(
+      `"maxOutputTokens" is ${config.maxOutputTokens}, ` +
+        `but ${name} generates at most ${profile.maxOutputTokens} tokens.`,
+    );
+  }
+
+  return warnings;
+}
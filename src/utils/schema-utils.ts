@@ -0,0 +1,250 @@
+import { type Schema, Type } from '@google/genai';
+
+/**
+ * A JSON Schema document or subschema.
+ */
+export type JsonSchema = Record<string, unknown>;
+
+/**
+ * String formats accepted by Gemini's `Schema`. Other formats (e.g. `email`) are dropped.
+ */
+const SUPPORTED_FORMATS = ['enum', 'date-time', 'int32', 'int64', 'float', 'double'];
+
+/**
+ * JSON Schema keywords that have no equivalent in Gemini's `Schema`.
+ */
+const UNSUPPORTED_KEYWORDS = [
+  'not',
+  'if',
+  'then',
+  'else',
+  'prefixItems',
+  'patternProperties',
+  'dependentSchemas',
+  'dependentRequired',
+  'unevaluatedProperties',
+  'contains',
+];
+
+/**
+ * Keywords that only carry metadata and are dropped without changing the meaning of the schema.
+ */
+const IGNORED_KEYWORDS = ['$schema', '$id', '$comment', '$defs', 'definitions', 'readOnly', 'writeOnly', 'deprecated'];
+
+/**
+ * Checks whether a model accepts full JSON Schema through `responseJsonSchema` and `parametersJsonSchema`.
+ */
+export function supportsJsonSchema(model?: string): boolean {
+  return !!model && /^(models\/)?gemini-(2\.5|[3-9])/.test(model);
+}
+
+/**
+ * Removes keys that are only meaningful to JSON Schema tooling before sending a schema as-is.
+ */
+export function stripJsonSchemaMetadata(jsonSchema: JsonSchema): JsonSchema {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { $schema, ...rest } = jsonSchema;
+  return rest;
+}
+
+/**
+ * Resolves a local `$ref` such as `#/$defs/Address` against the root schema.
+ */
+function resolveRef(root: JsonSchema, ref: string, path: string): JsonSchema {
+  if (!ref.startsWith('#')) {
+    throw new Error(`Cannot resolve remote "$ref" "${ref}" at ${path}. Only local references are supported.`);
+  }
+
+  let target: unknown = root;
+  for (const segment of ref.slice(1).split('/').filter(Boolean)) {
+    const key = decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~');
+    target = target && typeof target === 'object' ? (target as JsonSchema)[key] : undefined;
+  }
+  if (!target || typeof target !== 'object') {
+    throw new Error(`Cannot resolve "$ref" "${ref}" at ${path}.`);
+  }
+  return target as JsonSchema;
+}
+
+function toGoogleType(type: unknown, path: string): Type {
+  const googleType = typeof type === 'string' ? Type[type.toUpperCase() as keyof typeof Type] : undefined;
+  if (!googleType) {
+    throw new Error(`Unsupported type "${String(type)}" at ${path}.`);
+  }
+  return googleType;
+}
+
+function toEnumValues(values: unknown[], path: string): string[] {
+  if (!values.every(value => typeof value === 'string')) {
+    throw new Error(
+      `Only string values are supported in "enum" and "const", found ${JSON.stringify(values)} at ${path}.`,
+    );
+  }
+  return values;
+}
+
+function isNullSchema(schema: unknown): boolean {
+  return !!schema && typeof schema === 'object' && (schema as JsonSchema)['type'] === 'null';
+}
+
+/**
+ * Converts one (sub)schema, carrying the root for `$ref` resolution and the refs being expanded to detect recursion.
+ */
+function convertSchema(schema: JsonSchema, root: JsonSchema, path: string, expanding: string[]): Schema {
+  if (typeof schema['$ref'] === 'string') {
+    const ref = schema['$ref'];
+    if (expanding.includes(ref)) {
+      throw new Error(`Recursive "$ref" "${ref}" at ${path} cannot be inlined.`);
+    }
+    // Keywords next to $ref (e.g. a description) refine the referenced schema
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { $ref, ...siblings } = schema;
+    return convertSchema({ ...resolveRef(root, ref, path), ...siblings }, root, path, [...expanding, ref]);
+  }
+
+  for (const keyword of UNSUPPORTED_KEYWORDS) {
+    if (keyword in schema) {
+      throw new Error(`Unsupported keyword "${keyword}" at ${path}.`);
+    }
+  }
+
+  const result: Schema = {};
+
+  for (const [key, value] of Object.entries(schema)) {
+    if (value === undefined || IGNORED_KEYWORDS.includes(key)) {
+      continue;
+    }
+
+    switch (key) {
+      case 'type': {
+        // ["string", "null"] becomes a nullable string, several non-null types a union
+        const types = Array.isArray(value) ? value : [value];
+        const nonNullTypes = types.filter(type => type !== 'null');
+        if (nonNullTypes.length < types.length) {
+          result.nullable = true;
+        }
+        if (nonNullTypes.length === 1) {
+          result.type = toGoogleType(nonNullTypes[0], path);
+        } else if (nonNullTypes.length > 1) {
+          result.anyOf = nonNullTypes.map(type => ({ type: toGoogleType(type, path) }));
+        } else {
+          result.type = Type.NULL;
+        }
+        break;
+      }
+      case 'const':
+        result.type ??= Type.STRING;
+        result.enum = toEnumValues([value], `${path}/const`);
+        break;
+      case 'enum': {
+        const values = value as unknown[];
+        if (values.includes(null)) {
+          result.nullable = true;
+        }
+        result.type ??= Type.STRING;
+        result.enum = toEnumValues(values.filter(item => item !== null), `${path}/enum`);
+        break;
+      }
+      case 'anyOf':
+      case 'oneOf': {
+        // A null branch makes the union nullable, a single remaining branch is inlined
+        const branches = value as JsonSchema[];
+        const nonNullBranches = branches.filter(branch => !isNullSchema(branch));
+        if (nonNullBranches.length < branches.length) {
+          result.nullable = true;
+        }
+        const converted = nonNullBranches.map((branch, index) =>
+          convertSchema(branch, root, `${path}/${key}/${index}`, expanding),
+        );
+        if (converted.length === 1) {
+          Object.assign(result, converted[0], { nullable: result.nullable || converted[0].nullable || undefined });
+        } else {
+          result.anyOf = converted;
+        }
+        break;
+      }
+      case 'allOf': {
+        const branches = value as JsonSchema[];
+        if (branches.length !== 1) {
+          throw new Error(`"allOf" with more than one schema is not supported at ${path}.`);
+        }
+        Object.assign(result, convertSchema(branches[0], root, `${path}/allOf/0`, expanding));
+        break;
+      }
+      case 'properties': {
+        const properties = value as Record<string, JsonSchema>;
+        result.properties = Object.fromEntries(
+          Object.entries(properties).map(([name, property]) => [
+            name,
+            convertSchema(property, root, `${path}/properties/${name}`, expanding),
+          ]),
+        );
+        // Keeps the output in declaration order
+        result.propertyOrdering = Object.keys(properties);
+        break;
+      }
+      case 'additionalProperties':
+        if (typeof value === 'object' && Object.keys(value as JsonSchema).length > 0) {
+          throw new Error(`Schemas for "additionalProperties" (e.g. records or maps) are not supported at ${path}.`);
+        }
+        break;
+      case 'items':
+        if (Array.isArray(value)) {
+          throw new Error(`Tuple "items" are not supported at ${path}.`);
+        }
+        result.items = convertSchema(value as JsonSchema, root, `${path}/items`, expanding);
+        break;
+      case 'required':
+        result.required = value as string[];
+        break;
+      case 'format':
+        if (SUPPORTED_FORMATS.includes(value as string)) {
+          result.format = value as string;
+        }
+        break;
+      // Gemini has no exclusive bounds, so they are relaxed to inclusive ones
+      case 'minimum':
+      case 'exclusiveMinimum':
+        result.minimum = value as number;
+        break;
+      case 'maximum':
+      case 'exclusiveMaximum':
+        result.maximum = value as number;
+        break;
+      case 'minItems':
+      case 'maxItems':
+      case 'minLength':
+      case 'maxLength':
+      case 'minProperties':
+      case 'maxProperties':
+        result[key] = String(value);
+        break;
+      case 'examples':
+        result.example = (value as unknown[])[0];
+        break;
+      case 'title':
+      case 'description':
+      case 'pattern':
+        result[key] = value as string;
+        break;
+      case 'default':
+      case 'example':
+        result[key] = value;
+        break;
+      default:
+        throw new Error(`Unsupported keyword "${key}" at ${path}.`);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Converts a JSON Schema (e.g. produced from a zod schema) into Gemini's OpenAPI-based `Schema`.
+ * Local `$ref`s are inlined, `const` and nullable types are rewritten, and metadata keys are dropped.
+ * Throws an error naming the offending location for constructs that cannot be expressed,
+ * such as recursive references, record types or `not`.
+ */
+export function convertJsonSchemaToGoogleSchema(jsonSchema: JsonSchema): Schema {
+  return convertSchema(jsonSchema, jsonSchema, '#', []);
+}
@@ -0,0 +1,50 @@
+import { type Content, type Part, type Tool } from '@google/genai';
+
+/**
+ * Average number of characters per token of Gemini's tokenizer for English text and JSON.
+ */
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Tokens billed for an image up to 384 pixels, also used as a rough figure for other media
+ * since their duration or page count is not known locally.
+ */
+const MEDIA_TOKENS = 258;
+
+function estimateTextTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+function estimatePartTokens(part: Part): number {
+  if (part.text !== undefined) {
+    return estimateTextTokens(part.text);
+  }
+  if (part.inlineData || part.fileData) {
+    return MEDIA_TOKENS;
+  }
+  if (part.functionCall) {
+    return estimateTextTokens(JSON.stringify(part.functionCall));
+  }
+  if (part.functionResponse) {
+    const { parts, ...functionResponse } = part.functionResponse;
+    return estimateTextTokens(JSON.stringify(functionResponse)) + (parts?.length ?? 0) * MEDIA_TOKENS;
+  }
+  if (part.executableCode) {
+    return estimateTextTokens(part.executableCode.code ?? '');
+  }
+  if (part.codeExecutionResult) {
+    return estimateTextTokens(part.codeExecutionResult.output ?? '');
+  }
+  return 0;
+}
+
+/**
+ * Estimates the number of tokens of a request without calling the API.
+ * Text and JSON are counted at about four characters per token and each media part at a fixed size,
+ * so the result is an approximation suited to budgeting, not billing.
+ */
+export function estimateTokenCount(contents: Content[], systemInstruction?: Content, tools?: Tool[]): number {
+  const parts = [...(systemInstruction?.parts ?? []), ...contents.flatMap(content => content.parts ?? [])];
+  const toolTokens = tools ? estimateTextTokens(JSON.stringify(tools)) : 0;
+  return parts.reduce((total, part) => total + estimatePartTokens(part), toolTokens);
+}
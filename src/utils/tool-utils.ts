@@ -0,0 +1,229 @@
+import { Environment, type FunctionCallingConfig, type Interactions, type Schema, type Tool } from '@google/genai';
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * Keys of the standard API `Tool` object, each enabling a function set or a built-in tool.
+ */
+const GOOGLE_TOOL_KEYS: ReadonlyArray<keyof Tool> = [
+  'functionDeclarations',
+  'retrieval',
+  'googleSearchRetrieval',
+  'computerUse',
+  'fileSearch',
+  'codeExecution',
+  'enterpriseWebSearch',
+  'googleMaps',
+  'googleSearch',
+  'urlContext',
+];
+
+/**
+ * Types of the Interactions API built-in tools.
+ */
+const INTERACTION_BUILT_IN_TOOL_TYPES: ReadonlyArray<Interactions.Tool['type']> = [
+  'google_search',
+  'code_execution',
+  'url_context',
+  'computer_use',
+  'mcp_server',
+  'file_search',
+];
+
+/**
+ * Prefix of the IDs given to function calls that the API returned without one.
+ */
+const LOCAL_TOOL_CALL_ID_PREFIX = 'lc_local_';
+
+/**
+ * Creates an ID for a function call that the API returned without one.
+ * Such IDs only match tool results to their calls locally and are never sent back to the API.
+ */
+export function createLocalToolCallId(): string {
+  return LOCAL_TOOL_CALL_ID_PREFIX + uuidv4();
+}
+
+/**
+ * Returns the ID of a tool call as the API knows it, or undefined for IDs created by `createLocalToolCallId`.
+ */
+export function getApiToolCallId(id?: string): string | undefined {
+  return id?.startsWith(LOCAL_TOOL_CALL_ID_PREFIX) ? undefined : id;
+}
+
+/**
+ * Checks whether a bound tool is a standard API tool definition (camelCase), e.g. `{ googleSearch: {} }`.
+ */
+export function isGoogleTool(tool: object): tool is Tool {
+  return GOOGLE_TOOL_KEYS.some(key => key in tool);
+}
+
+/**
+ * Checks whether a bound tool is an Interactions API tool definition (snake_case), e.g. `{ type: 'google_search' }`.
+ * Function tools must carry their name at the top level, which distinguishes them from OpenAI style definitions.
+ */
+export function isInteractionTool(tool: object): tool is Interactions.Tool {
+  if (!('type' in tool)) {
+    return false;
+  }
+  if (tool.type === 'function') {
+    return 'name' in tool;
+  }
+  return INTERACTION_BUILT_IN_TOOL_TYPES.includes(tool.type as Interactions.Tool['type']);
+}
+
+/**
+ * Converts a standard API tool definition to the equivalent Interactions API tools.
+ */
+export function convertGoogleToolToInteractionTools(tool: Tool): Interactions.Tool[] {
+  const tools: Interactions.Tool[] = [];
+
+  for (const func of tool.functionDeclarations ?? []) {
+    tools.push({
+      type: 'function',
+      name: func.name,
+      description: func.description,
+      parameters: (func.parameters ?? func.parametersJsonSchema) as Schema,
+    });
+  }
+  if (tool.googleSearch) {
+    tools.push({ type: 'google_search' });
+  }
+  if (tool.codeExecution) {
+    tools.push({ type: 'code_execution' });
+  }
+  if (tool.urlContext) {
+    tools.push({ type: 'url_context' });
+  }
+  if (tool.computerUse) {
+    tools.push({
+      type: 'computer_use',
+      environment: 'browser',
+      excludedPredefinedFunctions: tool.computerUse.excludedPredefinedFunctions,
+    });
+  }
+  if (tool.fileSearch) {
+    tools.push({
+      type: 'file_search',
+      file_search_store_names: tool.fileSearch.fileSearchStoreNames,
+      top_k: tool.fileSearch.topK,
+      metadata_filter: tool.fileSearch.metadataFilter,
+    });
+  }
+
+  const unsupported = (['googleMaps', 'retrieval', 'googleSearchRetrieval', 'enterpriseWebSearch'] as const).filter(
+    key => tool[key],
+  );
+  if (unsupported.length > 0) {
+    throw new Error(`The "${unsupported[0]}" tool is not supported by the Interactions API.`);
+  }
+
+  return tools;
+}
+
+/**
+ * Converts an Interactions API tool definition to the equivalent standard API tool.
+ */
+export function convertInteractionToolToGoogleTool(tool: Interactions.Tool): Tool {
+  switch (tool.type) {
+    case 'function':
+      return {
+        functionDeclarations: [
+          {
+            name: tool.name,
+            description: tool.description,
+            parametersJsonSchema: tool.parameters,
+          },
+        ],
+      };
+    case 'google_search':
+      return { googleSearch: {} };
+    case 'code_execution':
+      return { codeExecution: {} };
+    case 'url_context':
+      return { urlContext: {} };
+    case 'computer_use':
+      return {
+        computerUse: {
+          environment: Environment.ENVIRONMENT_BROWSER,
+          excludedPredefinedFunctions: tool.excludedPredefinedFunctions,
+        },
+      };
+    case 'file_search':
+      return {
+        fileSearch: {
+          fileSearchStoreNames: tool.file_search_store_names,
+          topK: tool.top_k,
+          metadataFilter: tool.metadata_filter,
+        },
+      };
+    default:
+      throw new Error(`The "${tool.type}" tool is only supported by the Interactions API.`);
+  }
+}
+
+/**
+ * A tool choice normalized across the LangChain, standard API and Interactions API formats.
+ */
+export interface NormalizedToolChoice {
+  mode: 'auto' | 'any' | 'none' | 'validated';
+  /**
+   * Restricts which functions may be called. Only honored by the `any` and `validated` modes.
+   */
+  allowedFunctionNames?: string[];
+}
+
+/**
+ * Tool choice modes by name. LangChain's `required` forces a tool call like `any`.
+ */
+const TOOL_CHOICE_MODES: Record<string, NormalizedToolChoice['mode']> = {
+  auto: 'auto',
+  any: 'any',
+  required: 'any',
+  none: 'none',
+  validated: 'validated',
+  mode_unspecified: 'auto',
+};
+
+function normalizeFunctionCallingConfig(config: FunctionCallingConfig): NormalizedToolChoice {
+  return {
+    mode: TOOL_CHOICE_MODES[config.mode?.toLowerCase() ?? 'auto'] ?? 'auto',
+    allowedFunctionNames: config.allowedFunctionNames,
+  };
+}
+
+/**
+ * Normalizes a `tool_choice` call option. Supported forms are:
+ * - a mode name (`'auto'`, `'any'`, `'required'`, `'none'`, `'validated'`) or the name of a tool to force,
+ * - LangChain/OpenAI style `{ type: 'function', name }` and `{ type: 'function', function: { name } }`,
+ * - standard API `ToolConfig` or `FunctionCallingConfig` objects,
+ * - Interactions API `{ allowed_tools: { mode, tools } }` objects.
+ */
+export function normalizeToolChoice(toolChoice: unknown): NormalizedToolChoice | undefined {
+  if (typeof toolChoice === 'string') {
+    const mode = TOOL_CHOICE_MODES[toolChoice.toLowerCase()];
+    return mode ? { mode } : { mode: 'any', allowedFunctionNames: [toolChoice] };
+  }
+  if (!toolChoice || typeof toolChoice !== 'object') {
+    return undefined;
+  }
+
+  const choice = toolChoice as Record<string, unknown>;
+  if (choice['type'] === 'function') {
+    const func = choice['function'] as { name?: string } | undefined;
+    const name = (choice['name'] as string | undefined) ?? func?.name;
+    return name ? { mode: 'any', allowedFunctionNames: [name] } : { mode: 'any' };
+  }
+  if ('allowed_tools' in choice) {
+    const allowedTools = choice['allowed_tools'] as Interactions.AllowedTools;
+    return {
+      mode: TOOL_CHOICE_MODES[allowedTools.mode ?? 'auto'],
+      allowedFunctionNames: allowedTools.tools,
+    };
+  }
+  if ('functionCallingConfig' in choice) {
+    return normalizeFunctionCallingConfig(choice['functionCallingConfig'] as FunctionCallingConfig);
+  }
+  if ('mode' in choice) {
+    return normalizeFunctionCallingConfig(choice as FunctionCallingConfig);
+  }
+  return undefined;
+}
@@ -0,0 +1,110 @@
+import { type GenerateContentResponseUsageMetadata, type Interactions } from '@google/genai';
+import { type InputTokenDetails, type OutputTokenDetails, type UsageMetadata } from '@langchain/core/messages';
+
+type ModalityTokenDetails = Pick<InputTokenDetails, 'text' | 'image' | 'audio' | 'video' | 'document'>;
+
+/**
+ * Sums per-modality token counts, e.g. `[{ modality: 'AUDIO', tokenCount: 12 }]`, into LangChain's modality keys.
+ * Both the standard (upper case) and the Interactions API (lower case) modality names are accepted.
+ */
+function convertModalityTokenCounts(
+  counts: Array<{ modality?: string; tokens?: number; tokenCount?: number }>,
+): ModalityTokenDetails {
+  const details: Record<string, number> = {};
+  for (const count of counts) {
+    const modality = count.modality?.toLowerCase();
+    if (!modality || !['text', 'image', 'audio', 'video', 'document'].includes(modality)) {
+      continue;
+    }
+    details[modality] = (details[modality] ?? 0) + (count.tokenCount ?? count.tokens ?? 0);
+  }
+  return details;
+}
+
+/**
+ * Drops undefined counts and returns undefined if no count is left, so that messages only carry reported details.
+ */
+function compactTokenDetails<T extends object>(details: T): T | undefined {
+  const entries = Object.entries(details).filter(([, value]) => value !== undefined);
+  return entries.length > 0 ? (Object.fromEntries(entries) as T) : undefined;
+}
+
+/**
+ * Converts standard API usage to LangChain's format.
+ * Tool-use prompt tokens count as input and thoughts as output, so that input and output add up to the total.
+ * Cached tokens are part of the prompt tokens and reported again as `cache_read`.
+ */
+export function convertGoogleUsageMetadata(usage?: GenerateContentResponseUsageMetadata): UsageMetadata | undefined {
+  if (!usage) return undefined;
+
+  const inputTokens = (usage.promptTokenCount ?? 0) + (usage.toolUsePromptTokenCount ?? 0);
+  const outputTokens = (usage.candidatesTokenCount ?? 0) + (usage.thoughtsTokenCount ?? 0);
+
+  return {
+    input_tokens: inputTokens,
+    output_tokens: outputTokens,
+    total_tokens: usage.totalTokenCount ?? inputTokens + outputTokens,
+    input_token_details: compactTokenDetails<InputTokenDetails>({
+      ...convertModalityTokenCounts([
+        ...(usage.promptTokensDetails ?? []),
+        ...(usage.toolUsePromptTokensDetails ?? []),
+      ]),
+      cache_read: usage.cachedContentTokenCount,
+    }),
+    output_token_details: compactTokenDetails<OutputTokenDetails>({
+      ...convertModalityTokenCounts(usage.candidatesTokensDetails ?? []),
+      reasoning: usage.thoughtsTokenCount,
+    }),
+  };
+}
+
+/**
+ * Converts Interactions API usage to LangChain's format, counting tokens the same way as for the standard API.
+ */
+export function convertInteractionUsage(usage?: Interactions.Usage): UsageMetadata | undefined {
+  if (!usage) return undefined;
+
+  const inputTokens = (usage.total_input_tokens ?? 0) + (usage.total_tool_use_tokens ?? 0);
+  const outputTokens = (usage.total_output_tokens ?? 0) + (usage.total_reasoning_tokens ?? 0);
+
+  return {
+    input_tokens: inputTokens,
+    output_tokens: outputTokens,
+    total_tokens: usage.total_tokens ?? inputTokens + outputTokens,
+    input_token_details: compactTokenDetails<InputTokenDetails>({
+      ...convertModalityTokenCounts([
+        ...(usage.input_tokens_by_modality ?? []),
+        ...(usage.tool_use_tokens_by_modality ?? []),
+      ]),
+      cache_read: usage.total_cached_tokens,
+    }),
+    output_token_details: compactTokenDetails<OutputTokenDetails>({
+      ...convertModalityTokenCounts(usage.output_tokens_by_modality ?? []),
+      reasoning: usage.total_reasoning_tokens,
+    }),
+  };
+}
+
+function subtractTokenDetails<T extends object>(details?: T, previous?: T): T | undefined {
+  if (!details) return undefined;
+  const previousCounts = (previous ?? {}) as Record<string, number | undefined>;
+  return Object.fromEntries(
+    Object.entries(details).map(([key, value]) => [key, (value as number) - (previousCounts[key] ?? 0)]),
+  ) as T;
+}
+
+/**
+ * Returns the usage added since `previous`.
+ * Stream chunks report cumulative usage while LangChain sums the usage of concatenated chunks,
+ * so each chunk must only carry its increment for the aggregated message to match the final counts.
+ */
+export function subtractUsageMetadata(usage: UsageMetadata, previous?: UsageMetadata): UsageMetadata {
+  if (!previous) return usage;
+  return {
+    input_tokens: usage.input_tokens - previous.input_tokens,
+    output_tokens: usage.output_tokens - previous.output_tokens,
+    total_tokens: usage.total_tokens - previous.total_tokens,
+    input_token_details: subtractTokenDetails(usage.input_token_details, previous.input_token_details),
+    output_token_details: subtractTokenDetails(usage.output_token_details, previous.output_token_details),
+  };
+}